@@ -0,0 +1,62 @@
+/**
+ * Allowlist / blocklist of accounts, stored by DID (with the handle for display).
+ */
+
+import { AccessLists, AccessListEntry, AccountStore } from './types';
+
+const ACCESS_LISTS_KEY = 'access_lists';
+const MAX_ENTRIES_PER_LIST = 1000;
+
+export type AccessListName = 'allow' | 'block';
+
+export async function getAccessLists(kv: AccountStore): Promise<AccessLists> {
+  const raw = await kv.get(ACCESS_LISTS_KEY);
+  if (!raw) return { mode: 'all', allow: [], block: [] };
+  try {
+    const parsed = JSON.parse(raw) as Partial<AccessLists>;
+    return {
+      mode: parsed.mode === 'allowlistOnly' ? 'allowlistOnly' : 'all',
+      allow: parsed.allow ?? [],
+      block: parsed.block ?? [],
+    };
+  } catch {
+    return { mode: 'all', allow: [], block: [] };
+  }
+}
+
+export async function saveAccessLists(kv: AccountStore, lists: AccessLists): Promise<void> {
+  await kv.put(ACCESS_LISTS_KEY, JSON.stringify(lists));
+}
+
+/**
+ * Add (or update) an entry. An account is only ever on one list, so it's removed from the other.
+ * Returns an error message if the list is full.
+ */
+export function addToAccessList(lists: AccessLists, name: AccessListName, entry: AccessListEntry): string | null {
+  const other: AccessListName = name === 'allow' ? 'block' : 'allow';
+  lists[other] = lists[other].filter((e) => e.did !== entry.did);
+  const existing = lists[name].findIndex((e) => e.did === entry.did);
+  if (existing >= 0) {
+    lists[name][existing] = entry;
+    return null;
+  }
+  if (lists[name].length >= MAX_ENTRIES_PER_LIST) return `The ${name}list is full (${MAX_ENTRIES_PER_LIST} accounts)`;
+  lists[name].push(entry);
+  return null;
+}
+
+export function removeFromAccessList(lists: AccessLists, name: AccessListName, did: string): boolean {
+  const before = lists[name].length;
+  lists[name] = lists[name].filter((e) => e.did !== did);
+  return lists[name].length !== before;
+}
+
+/**
+ * Decide how the lists treat a sender: 'blocked' (never reply), 'allowed' (reply, skip audience
+ * filters) or 'default' (normal checks). In allowlist-only mode, unlisted senders are blocked.
+ */
+export function checkAccessLists(lists: AccessLists, did: string): 'blocked' | 'allowed' | 'default' {
+  if (lists.block.some((e) => e.did === did)) return 'blocked';
+  if (lists.allow.some((e) => e.did === did)) return 'allowed';
+  return lists.mode === 'allowlistOnly' ? 'blocked' : 'default';
+}
@@ -0,0 +1,145 @@
+/**
+ * Extra Bluesky accounts managed from the admin panel.
+ * The account from BSKY_HANDLE / BSKY_APP_PASSWORD is the "default" account and keeps
+ * using unprefixed KV keys; every added account gets its own `acct:<id>:` key prefix, so
+ * config, session cache, ledger, logs etc. are separate. The modules that use KV take an
+ * AccountStore and don't know about the prefix.
+ * App passwords are stored AES-GCM encrypted with ACCOUNTS_ENCRYPTION_KEY.
+ */
+
+import { AccountEnv, AccountStore, Env } from './types';
+
+const ACCOUNTS_KEY = 'accounts';
+const ACCOUNT_PREFIX = 'acct:';
+const MAX_ACCOUNTS = 20;
+/** Keys deleted per request when removing an account, to stay under the per-request KV operation limit */
+const DELETE_BATCH_SIZE = 500;
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+export interface BotAccount {
+  id: string;
+  handle: string;
+  did: string;
+  /** PDS URL, if not https://bsky.social */
+  serviceUrl?: string;
+  /** `<iv>.<ciphertext>`, both base64 */
+  encryptedPassword: string;
+  addedAt: string;
+}
+
+export interface AccountSummary {
+  id: string;
+  handle: string;
+  isDefault: boolean;
+}
+
+export async function getAccounts(kv: KVNamespace): Promise<BotAccount[]> {
+  const raw = await kv.get(ACCOUNTS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as BotAccount[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveAccounts(kv: KVNamespace, accounts: BotAccount[]): Promise<void> {
+  await kv.put(ACCOUNTS_KEY, JSON.stringify(accounts));
+}
+
+/** True if another account may be added. */
+export function canAddAccount(accounts: BotAccount[]): boolean {
+  return accounts.length < MAX_ACCOUNTS;
+}
+
+/** The default account (if configured via env vars) followed by added accounts. */
+export function listAccountSummaries(env: Env, accounts: BotAccount[]): AccountSummary[] {
+  const list: AccountSummary[] = [];
+  if (env.BSKY_HANDLE) list.push({ id: DEFAULT_ACCOUNT_ID, handle: env.BSKY_HANDLE, isDefault: true });
+  for (const a of accounts) list.push({ id: a.id, handle: a.handle, isDefault: false });
+  return list;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(s: string): Uint8Array {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+}
+
+async function encryptionKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', digest, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+export async function encryptPassword(secret: string, password: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await encryptionKey(secret),
+    new TextEncoder().encode(password)
+  );
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`;
+}
+
+/** Throws if the value was encrypted with a different key. */
+export async function decryptPassword(secret: string, encrypted: string): Promise<string> {
+  const [iv, data] = encrypted.split('.');
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await encryptionKey(secret),
+    fromBase64(data)
+  );
+  return new TextDecoder().decode(plain);
+}
+
+/**
+ * A view of `kv` where every key is transparently prefixed. List results have the
+ * prefix stripped, so callers see the same key names as with an unscoped namespace.
+ */
+function scopedStore(kv: KVNamespace, prefix: string): AccountStore {
+  return {
+    get: (key) => kv.get(prefix + key),
+    put: (key, value, options) => kv.put(prefix + key, value, options),
+    delete: (key) => kv.delete(prefix + key),
+    list: async <Metadata>(options: KVNamespaceListOptions = {}) => {
+      const page = await kv.list<Metadata>({ ...options, prefix: prefix + (options.prefix ?? '') });
+      return { ...page, keys: page.keys.map((k) => ({ ...k, name: k.name.slice(prefix.length) })) };
+    },
+  };
+}
+
+function accountPrefix(id: string): string {
+  return `${ACCOUNT_PREFIX}${id}:`;
+}
+
+/**
+ * Env for one account: its credentials and its own KV scope. The default account
+ * gets `env` unchanged. Throws if the stored password can't be decrypted.
+ */
+export async function getAccountEnv(env: Env, id: string, accounts: BotAccount[]): Promise<AccountEnv | null> {
+  if (id === DEFAULT_ACCOUNT_ID) return env.BSKY_HANDLE ? env : null;
+  const account = accounts.find((a) => a.id === id);
+  if (!account) return null;
+  if (!env.ACCOUNTS_ENCRYPTION_KEY) throw new Error('ACCOUNTS_ENCRYPTION_KEY not set');
+  return {
+    ...env,
+    BOT_CONFIG: scopedStore(env.BOT_CONFIG, accountPrefix(id)),
+    BSKY_HANDLE: account.handle,
+    BSKY_APP_PASSWORD: await decryptPassword(env.ACCOUNTS_ENCRYPTION_KEY, account.encryptedPassword),
+    BSKY_SERVICE_URL: account.serviceUrl,
+  };
+}
+
+/**
+ * Delete one batch of an added account's KV data. Call again until `done` is true,
+ * then remove the account itself.
+ */
+export async function deleteAccountData(kv: KVNamespace, id: string): Promise<{ deleted: number; done: boolean }> {
+  const page = await kv.list({ prefix: accountPrefix(id), limit: DELETE_BATCH_SIZE });
+  await Promise.all(page.keys.map((k) => kv.delete(k.name)));
+  return { deleted: page.keys.length, done: page.list_complete };
+}
@@ -0,0 +1,180 @@
+/**
+ * Activity log: one record per cron run (what was scanned, sent, skipped and what went wrong).
+ * Records live in a single KV value, newest first, trimmed to a rolling window.
+ */
+
+import { ReplyKind } from './ledger';
+import { AccountStore, WelcomeLanguage } from './types';
+
+const ACTIVITY_KEY = 'activity';
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+/** The cron schedule in wrangler.toml */
+const RUN_INTERVAL_MS = 60 * 1000;
+/** One record per run for the whole retention window (repeats are folded, so usually far fewer) */
+const MAX_RUNS = RETENTION_MS / RUN_INTERVAL_MS;
+/** How often a growing run of repeats is written, to stay under the KV daily write limit */
+const REPEAT_WRITE_INTERVAL_MS = 10 * 60 * 1000;
+/** KV values are limited to 25 MiB; the oldest runs are dropped beyond this */
+const MAX_LOG_CHARS = 20 * 1024 * 1024;
+/** Per-run cap on stored skip details (counts in `skipCounts` stay exact) */
+const MAX_SKIPS_PER_RUN = 50;
+
+export type SkipReason =
+  | 'blocked'
+  | 'alreadyReplied'
+  | 'filtered'
+  | 'lookupLimit'
+  | 'profileUnavailable'
+  | 'hasHistory'
+  | 'repliedByOtherRun'
+  | 'queuedForPreview'
+  | 'scheduled'
+  | 'messageRequest'
+  | 'spam';
+
+export type RunOutcome = 'ok' | 'rateLimited' | 'error';
+
+export interface ActivityReply {
+  did: string;
+  handle?: string;
+  kind: ReplyKind;
+  ruleId?: string;
+  /** Language of a localized welcome message */
+  lang?: WelcomeLanguage;
+}
+
+export interface ActivitySkip {
+  did: string;
+  reason: SkipReason;
+  /** Extra context, e.g. which audience filter applied */
+  detail?: string;
+}
+
+export interface ActivityRun {
+  startedAt: string;
+  finishedAt?: string;
+  outcome: RunOutcome;
+  /** Dry run: `replies` were queued for preview, not sent */
+  dryRun?: boolean;
+  /** Why no new DMs were handled, e.g. "business hours: replies paused" */
+  note?: string;
+  convosScanned: number;
+  historyChecks: number;
+  profileLookups: number;
+  replies: ActivityReply[];
+  /** Replies queued to go out after the message delay */
+  scheduled?: ActivityReply[];
+  followUpsSent: number;
+  skips: ActivitySkip[];
+  skipCounts: Partial<Record<SkipReason, number>>;
+  errors: string[];
+  /** Later runs identical to this one, folded into it */
+  repeats?: number;
+  /** Start of the latest folded run */
+  lastRepeatAt?: string;
+}
+
+export function startRun(now: Date): ActivityRun {
+  return {
+    startedAt: now.toISOString(),
+    outcome: 'ok',
+    convosScanned: 0,
+    historyChecks: 0,
+    profileLookups: 0,
+    replies: [],
+    followUpsSent: 0,
+    skips: [],
+    skipCounts: {},
+    errors: [],
+  };
+}
+
+export function recordSkip(run: ActivityRun, did: string, reason: SkipReason, detail?: string): void {
+  run.skipCounts[reason] = (run.skipCounts[reason] ?? 0) + 1;
+  if (run.skips.length < MAX_SKIPS_PER_RUN) run.skips.push(detail ? { did, reason, detail } : { did, reason });
+}
+
+export function recordError(run: ActivityRun, message: string): void {
+  run.errors.push(message);
+  if (run.outcome === 'ok') run.outcome = 'error';
+}
+
+export async function getActivity(kv: AccountStore): Promise<ActivityRun[]> {
+  const raw = await kv.get(ACTIVITY_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as ActivityRun[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Everything about a run except its timing; used to fold repeated identical runs. */
+function signature(run: ActivityRun): string {
+  const { startedAt: _s, finishedAt: _f, repeats: _r, lastRepeatAt: _l, ...rest } = run;
+  return JSON.stringify(rest);
+}
+
+/**
+ * Repeats of `run` not written yet, up to `until`. Every run that differs is written, so the runs
+ * since the last write were all repeats; they're counted from the cron interval.
+ */
+function unwrittenRepeats(run: ActivityRun, until: number): number {
+  const since = new Date(run.lastRepeatAt ?? run.startedAt).getTime();
+  return Math.max(0, Math.round((until - since) / RUN_INTERVAL_MS));
+}
+
+/**
+ * Add a finished run to the log. A run identical to the previous one (e.g. the same
+ * conversations skipped for the same reasons, nothing sent) is folded into it as a repeat
+ * count, written at most every few minutes so a quiet account doesn't use a KV write every minute.
+ */
+export async function saveRun(kv: AccountStore, run: ActivityRun): Promise<void> {
+  const runs = await getActivity(kv);
+  const previous = runs[0];
+  const startedAt = new Date(run.startedAt).getTime();
+  if (previous && signature(previous) === signature(run)) {
+    const since = new Date(previous.lastRepeatAt ?? previous.startedAt).getTime();
+    if (startedAt - since < REPEAT_WRITE_INTERVAL_MS) return;
+    previous.repeats = (previous.repeats ?? 0) + Math.max(1, unwrittenRepeats(previous, startedAt));
+    previous.lastRepeatAt = run.startedAt;
+    await kv.put(ACTIVITY_KEY, JSON.stringify(runs));
+    return;
+  }
+  if (previous) {
+    // This run is one of the intervals since the last write; the others were repeats
+    const folded = unwrittenRepeats(previous, startedAt) - 1;
+    if (folded > 0) {
+      previous.repeats = (previous.repeats ?? 0) + folded;
+      previous.lastRepeatAt = new Date(startedAt - RUN_INTERVAL_MS).toISOString();
+    }
+  }
+  const cutoff = Date.now() - RETENTION_MS;
+  const kept = [run, ...runs].filter((r) => new Date(r.lastRepeatAt ?? r.startedAt).getTime() > cutoff).slice(0, MAX_RUNS);
+  let json = JSON.stringify(kept);
+  while (json.length > MAX_LOG_CHARS && kept.length > 1) {
+    kept.splice(Math.ceil(kept.length * 0.9));
+    json = JSON.stringify(kept);
+  }
+  await kv.put(ACTIVITY_KEY, json);
+}
+
+export type ActivityFilter = 'all' | 'replies' | 'skips' | 'errors';
+
+/** Runs matching the filter and (optionally) mentioning a DID or handle, newest first. */
+export function filterActivity(runs: ActivityRun[], filter: ActivityFilter, query?: string): ActivityRun[] {
+  const q = query?.trim().replace(/^@/, '').toLowerCase();
+  return runs.filter((r) => {
+    if (filter === 'replies' && r.replies.length === 0 && !r.scheduled?.length && r.followUpsSent === 0) return false;
+    if (filter === 'skips' && Object.keys(r.skipCounts).length === 0) return false;
+    if (filter === 'errors' && r.outcome === 'ok') return false;
+    if (!q) return true;
+    return (
+      [...r.replies, ...(r.scheduled ?? [])].some(
+        (x) => x.did.toLowerCase().includes(q) || x.handle?.toLowerCase().includes(q)
+      ) ||
+      r.skips.some((x) => x.did.toLowerCase().includes(q))
+    );
+  });
+}
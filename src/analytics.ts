@@ -0,0 +1,131 @@
+/**
+ * Daily analytics: counters per UTC day (first-time DMs, replies, skips by reason, failed
+ * sends, rate-limit hits), rolled up from each cron run into one KV value and kept for 90 days.
+ * Runs that change nothing add nothing, so a quiet account doesn't use a KV write per minute.
+ * A DM skipped again on later runs (a pending retry, a rescan) counts once per skip reason.
+ */
+
+import { ActivityRun, SkipReason } from './activity';
+import { WebhookEvent } from './webhooks';
+import { AccountStore } from './types';
+
+const ANALYTICS_KEY = 'analytics';
+export const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyMetrics {
+  /** First-time DMs detected (the `dm.received` webhook event) */
+  firstDms: number;
+  /** Auto-replies sent (dry-run previews don't count) */
+  replies: number;
+  followUps: number;
+  /** Replies that failed to send */
+  failures: number;
+  /** Runs that hit a Bluesky 429 */
+  rateLimited: number;
+  skips: Partial<Record<SkipReason, number>>;
+  /** Skips counted this day, as `convoId:messageId:reason`; kept while the day is today or yesterday */
+  skipKeys?: string[];
+}
+
+/** A skip in one run */
+export interface SkippedDm {
+  /** `convoId:messageId:reason`, the same on every run that skips the DM for that reason */
+  key: string;
+  reason: SkipReason;
+}
+
+export interface AnalyticsDay extends DailyMetrics {
+  /** UTC day, YYYY-MM-DD */
+  date: string;
+}
+
+/** Counter columns, in the order used for CSV export */
+export const METRIC_NAMES = ['firstDms', 'replies', 'followUps', 'failures', 'rateLimited'] as const;
+
+function emptyMetrics(): DailyMetrics {
+  return { firstDms: 0, replies: 0, followUps: 0, failures: 0, rateLimited: 0, skips: {} };
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** What one run adds to the day's counters, or null if it adds nothing. Skips are counted by `recordRunMetrics`. */
+export function metricsFromRun(run: ActivityRun, events: WebhookEvent[]): DailyMetrics | null {
+  const metrics = emptyMetrics();
+  for (const event of events) {
+    if (event.type === 'dm.received') metrics.firstDms++;
+    else if (event.type === 'reply.sent') metrics.replies++;
+    else if (event.type === 'reply.failed') metrics.failures++;
+    else if (event.type === 'rate_limited') metrics.rateLimited++;
+  }
+  metrics.followUps = run.followUpsSent;
+  return METRIC_NAMES.every((name) => metrics[name] === 0) ? null : metrics;
+}
+
+export async function getAnalytics(kv: AccountStore): Promise<Record<string, DailyMetrics>> {
+  const raw = await kv.get(ANALYTICS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Record<string, DailyMetrics>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Add a run's counters and skips to its day and drop days older than the retention window.
+ * A skip already counted today or yesterday isn't counted again; its key moves to today so it
+ * stays known while the DM keeps being skipped. Nothing is written when nothing changed.
+ */
+export async function recordRunMetrics(
+  kv: AccountStore,
+  metrics: DailyMetrics | null,
+  skipped: SkippedDm[],
+  at: Date
+): Promise<void> {
+  if (!metrics && skipped.length === 0) return;
+  const days = await getAnalytics(kv);
+  const key = dayKey(at);
+  const yesterday = dayKey(new Date(at.getTime() - DAY_MS));
+  const day = (days[key] ??= emptyMetrics());
+  const todayKeys = new Set(day.skipKeys ?? []);
+  const earlierKeys = new Set(days[yesterday]?.skipKeys ?? []);
+  let changed = metrics !== null;
+  if (metrics) for (const name of METRIC_NAMES) day[name] += metrics[name];
+  for (const { key: skipKey, reason } of skipped) {
+    if (todayKeys.has(skipKey)) continue;
+    if (!earlierKeys.has(skipKey)) day.skips[reason] = (day.skips[reason] ?? 0) + 1;
+    todayKeys.add(skipKey);
+    changed = true;
+  }
+  if (!changed) return;
+  day.skipKeys = [...todayKeys];
+
+  const cutoff = dayKey(new Date(at.getTime() - RETENTION_DAYS * DAY_MS));
+  const kept = Object.fromEntries(Object.entries(days).filter(([date]) => date > cutoff));
+  for (const [date, metricsForDay] of Object.entries(kept)) {
+    if (date < yesterday) delete metricsForDay.skipKeys;
+  }
+  await kv.put(ANALYTICS_KEY, JSON.stringify(kept));
+}
+
+/** The last `count` days up to and including today, oldest first; days without activity are zeros. */
+export function lastDays(days: Record<string, DailyMetrics>, count: number, now: Date): AnalyticsDay[] {
+  const result: AnalyticsDay[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const date = dayKey(new Date(now.getTime() - i * DAY_MS));
+    const { skipKeys: _skipKeys, ...day } = days[date] ?? emptyMetrics();
+    result.push({ date, ...day, skips: { ...day.skips } });
+  }
+  return result;
+}
+
+/** CSV with one row per day; skips get a column per reason that occurs in the range. */
+export function analyticsCsv(days: AnalyticsDay[]): string {
+  const reasons = [...new Set(days.flatMap((d) => Object.keys(d.skips)))].sort() as SkipReason[];
+  const header = ['date', ...METRIC_NAMES, ...reasons.map((r) => `skipped_${r}`)];
+  const rows = days.map((d) => [d.date, ...METRIC_NAMES.map((n) => d[n]), ...reasons.map((r) => d.skips[r] ?? 0)].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,111 @@
+/**
+ * Audience filters: decide whether a sender should get an auto-reply based on
+ * follow status, account age, post count and moderation labels.
+ * Profile facts are cached in KV so repeat checks don't cost API calls.
+ */
+
+import { AccountStore, AudienceFilters } from './types';
+import { BlueskyDmClient } from './bluesky-dm';
+
+const AUDIENCE_PREFIX = 'audience:';
+const AUDIENCE_CACHE_TTL_SEC = 6 * 60 * 60;
+const MAX_BLOCKED_LABELS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The subset of a profile the filters need. */
+export interface AudienceFacts {
+  followsUs: boolean;
+  postsCount: number;
+  /** Account creation time (ISO), if known */
+  createdAt?: string;
+  labels: string[];
+}
+
+export function defaultAudienceFilters(): AudienceFilters {
+  return { followMode: 'all', minAccountAgeDays: 0, minPosts: 0, blockedLabels: [] };
+}
+
+/** True if any filter is active (otherwise no profile lookup is needed). */
+export function hasAudienceFilters(filters: AudienceFilters | undefined): filters is AudienceFilters {
+  if (!filters) return false;
+  return (
+    filters.followMode !== 'all' ||
+    filters.minAccountAgeDays > 0 ||
+    filters.minPosts > 0 ||
+    filters.blockedLabels.length > 0
+  );
+}
+
+export async function getCachedAudienceFacts(kv: AccountStore, did: string): Promise<AudienceFacts | null> {
+  const raw = await kv.get(`${AUDIENCE_PREFIX}${did}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as AudienceFacts;
+  } catch {
+    return null;
+  }
+}
+
+/** Fetch the sender's profile and cache the facts. Returns null if the profile can't be loaded. */
+export async function lookupAudienceFacts(
+  kv: AccountStore,
+  client: BlueskyDmClient,
+  did: string
+): Promise<AudienceFacts | null> {
+  const profile = await client.getProfile(did);
+  if (!profile) return null;
+  const facts: AudienceFacts = {
+    followsUs: !!profile.viewer?.followedBy,
+    postsCount: profile.postsCount ?? 0,
+    createdAt: profile.createdAt || profile.indexedAt,
+    labels: (profile.labels || []).map((l) => l.val.toLowerCase()),
+  };
+  await kv.put(`${AUDIENCE_PREFIX}${did}`, JSON.stringify(facts), { expirationTtl: AUDIENCE_CACHE_TTL_SEC });
+  return facts;
+}
+
+/**
+ * Returns the reason to skip this sender, or null if they pass every filter.
+ */
+export function checkAudience(filters: AudienceFilters, facts: AudienceFacts, now: Date): string | null {
+  if (filters.followMode === 'followers' && !facts.followsUs) return 'not a follower';
+  if (filters.followMode === 'nonFollowers' && facts.followsUs) return 'is a follower';
+  if (filters.minAccountAgeDays > 0 && facts.createdAt) {
+    const ageDays = (now.getTime() - new Date(facts.createdAt).getTime()) / DAY_MS;
+    if (ageDays < filters.minAccountAgeDays) return `account younger than ${filters.minAccountAgeDays} days`;
+  }
+  if (filters.minPosts > 0 && facts.postsCount < filters.minPosts) {
+    return `fewer than ${filters.minPosts} posts`;
+  }
+  const label = facts.labels.find((l) => filters.blockedLabels.includes(l));
+  if (label) return `labeled "${label}"`;
+  return null;
+}
+
+/**
+ * Validate and normalize audience filters from the admin API.
+ */
+export function validateAudienceFilters(input: unknown): { filters: AudienceFilters } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'audience must be an object' };
+  const a = input as Partial<AudienceFilters>;
+  const followMode = a.followMode ?? 'all';
+  if (!['all', 'followers', 'nonFollowers'].includes(followMode)) {
+    return { error: 'audience.followMode must be all, followers or nonFollowers' };
+  }
+  const minAccountAgeDays = Math.round(Number(a.minAccountAgeDays ?? 0));
+  const minPosts = Math.round(Number(a.minPosts ?? 0));
+  if (!Number.isFinite(minAccountAgeDays) || minAccountAgeDays < 0 || minAccountAgeDays > 3650) {
+    return { error: 'Minimum account age must be between 0 and 3650 days' };
+  }
+  if (!Number.isFinite(minPosts) || minPosts < 0 || minPosts > 100000) {
+    return { error: 'Minimum post count must be between 0 and 100000' };
+  }
+  if (a.blockedLabels !== undefined && !Array.isArray(a.blockedLabels)) {
+    return { error: 'audience.blockedLabels must be an array' };
+  }
+  const blockedLabels = [
+    ...new Set((a.blockedLabels ?? []).map((l) => String(l).trim().toLowerCase()).filter(Boolean)),
+  ];
+  if (blockedLabels.length > MAX_BLOCKED_LABELS) return { error: `At most ${MAX_BLOCKED_LABELS} labels` };
+  return { filters: { followMode, minAccountAgeDays, minPosts, blockedLabels } };
+}
@@ -3,19 +3,40 @@
  * Uses chat.bsky.convo APIs via PDS proxy.
  */
 
+import { detectFacetSpans, truncateGraphemes, buildFacets, Facet } from './richtext';
+import { EndpointBudget, EndpointClass, parseRateLimitHeaders } from './rate-limits';
+
 const CHAT_PROXY_HEADER = 'did:web:api.bsky.chat';
+/** Bluesky's moderation service, which receives reports */
+const MODERATION_PROXY_HEADER = 'did:plc:ar7c4by46qjdydhdevvrndac#atproto_labeler';
 const DM_MAX_GRAPHEMES = 1000;
+/** Messages sent this close together count as one DM (e.g. "hi" followed by the question) */
+const SAME_DM_WINDOW_MS = 10 * 60 * 1000;
+const POST_URL_RE = /^https?:\/\/(?:www\.|staging\.)?bsky\.app\/profile\/([^/]+)\/post\/([^/?#]+)/i;
+const POST_AT_URI_RE = /^at:\/\/([^/]+)\/app\.bsky\.feed\.post\/([^/?#]+)$/;
 
-function truncateMessage(text: string): string {
-  const seg = new Intl.Segmenter('en', { granularity: 'grapheme' });
-  const segments = [...seg.segment(text)];
-  if (segments.length <= DM_MAX_GRAPHEMES) return text;
-  return segments.slice(0, DM_MAX_GRAPHEMES).map((s) => s.segment).join('');
+/** Cut to the DM length limit without splitting a link, mention or hashtag. */
+function truncateMessage(text: string, lang?: string): string {
+  return truncateGraphemes(text, DM_MAX_GRAPHEMES, undefined, lang);
 }
 
 export interface ConvoParticipant {
   did: string;
   handle?: string;
+  displayName?: string;
+}
+
+export interface ActorProfile {
+  did: string;
+  handle: string;
+  displayName?: string;
+  followersCount?: number;
+  postsCount?: number;
+  createdAt?: string;
+  indexedAt?: string;
+  labels?: Array<{ val: string; src?: string }>;
+  /** Relationship to us; followedBy is set when they follow us */
+  viewer?: { following?: string; followedBy?: string };
 }
 
 export interface ConvoLastMessage {
@@ -29,40 +50,146 @@ export interface Convo {
   id: string;
   members?: ConvoParticipant[];
   lastMessage?: ConvoLastMessage | null;
+  /** 'request' until we accept the convo (or reply in it) */
+  status?: 'request' | 'accepted';
+  muted?: boolean;
+}
+
+/** One event from chat.bsky.convo.getLog (message, convo begun / left, etc.). */
+export interface ConvoLogEntry {
+  /** e.g. `chat.bsky.convo.defs#logCreateMessage` */
+  $type: string;
+  rev: string;
+  convoId: string;
+  message?: { id?: string; text?: string; sentAt?: string; sender?: { did: string } };
+}
+
+export interface ConvoHistory {
+  /** We've sent at least one message (also true when the scan failed or hit its cap) */
+  weHaveSent: boolean;
+  /** Time between the other user's new DM and the message before it (their previous one, or ours if more recent), if known */
+  silenceMs: number | null;
+}
+
+/** Reference to a specific version of a record (uri + cid). */
+export interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+export interface RecordEmbed {
+  $type: 'app.bsky.embed.record';
+  record: StrongRef;
+}
+
+export type SendDmErrorCode =
+  | 'notLoggedIn'
+  | 'dmsRestricted'
+  | 'availabilityFailed'
+  | 'convoCreateFailed'
+  | 'sendFailed'
+  | 'rateLimited';
+
+/** Outcome of sendDmToUser: the convo and message on success, otherwise why it failed. */
+export type SendDmResult =
+  | { ok: true; convoId: string; messageId: string }
+  | { ok: false; code: SendDmErrorCode; message: string };
+
+/** Tokens from createSession / refreshSession, as cached between runs. */
+export interface BlueskySession {
+  accessJwt: string;
+  /** Missing in sessions cached before token refresh was supported */
+  refreshJwt?: string;
+  did: string;
+}
+
+/** True if the response says the access token expired or was rejected. */
+async function isExpiredToken(res: Response): Promise<boolean> {
+  if (res.status === 401) return true;
+  if (res.status !== 400) return false;
+  try {
+    const data = (await res.clone().json()) as { error?: string };
+    return data.error === 'ExpiredToken' || data.error === 'InvalidToken';
+  } catch {
+    return false;
+  }
 }
 
 /** Thrown when Bluesky returns 429 Rate Limited */
 export class RateLimitError extends Error {
-  constructor() {
+  /** Which kind of call was limited */
+  endpoint?: EndpointClass;
+  /** When the limit resets, from the `ratelimit-reset` header */
+  resetAt?: string;
+
+  constructor(endpoint?: EndpointClass, resetAt?: string) {
     super('Bluesky rate limit exceeded');
     this.name = 'RateLimitError';
+    this.endpoint = endpoint;
+    this.resetAt = resetAt;
   }
 }
 
 export class BlueskyDmClient {
   private accessJwt: string | null = null;
+  private refreshJwt: string | null = null;
   private ourDid: string | null = null;
+  private sessionListener: ((session: BlueskySession) => Promise<void>) | null = null;
+  /** Latest rate-limit budget seen per endpoint class */
+  private budgets: Partial<Record<EndpointClass, EndpointBudget>> = {};
+  /** handle → DID (null = didn't resolve), cached for the lifetime of the client */
+  private handleCache = new Map<string, string | null>();
   private handle: string;
+  private appPassword: string;
   private serviceUrl: string;
 
-  constructor(handle: string, _appPassword: string, serviceUrl: string = 'https://bsky.social') {
+  constructor(handle: string, appPassword: string, serviceUrl: string = 'https://bsky.social') {
     this.handle = handle;
+    this.appPassword = appPassword;
     this.serviceUrl = serviceUrl.replace(/\/$/, '');
   }
 
   /** Use a cached session instead of logging in (reduces API calls). */
-  setCachedSession(accessJwt: string, ourDid: string): void {
-    this.accessJwt = accessJwt;
-    this.ourDid = ourDid;
+  setCachedSession(session: BlueskySession): void {
+    this.accessJwt = session.accessJwt;
+    this.refreshJwt = session.refreshJwt || null;
+    this.ourDid = session.did;
   }
 
-  getSessionForCache(): { accessJwt: string; did: string } | null {
+  getSessionForCache(): BlueskySession | null {
     if (!this.accessJwt || !this.ourDid) return null;
-    return { accessJwt: this.accessJwt, did: this.ourDid };
+    return { accessJwt: this.accessJwt, refreshJwt: this.refreshJwt || undefined, did: this.ourDid };
+  }
+
+  /** Called with the new session after every login or refresh, so it can be cached. */
+  onSessionChange(listener: (session: BlueskySession) => Promise<void>): void {
+    this.sessionListener = listener;
+  }
+
+  private async setSession(data: { accessJwt?: string; refreshJwt?: string; did?: string }): Promise<void> {
+    this.accessJwt = data.accessJwt || null;
+    this.refreshJwt = data.refreshJwt || null;
+    this.ourDid = data.did || null;
+    const session = this.getSessionForCache();
+    if (session && this.sessionListener) await this.sessionListener(session);
+  }
+
+  /** Rate-limit budgets from the responses so far. */
+  getObservedBudgets(): Partial<Record<EndpointClass, EndpointBudget>> {
+    return { ...this.budgets };
+  }
+
+  /** fetch that records the rate-limit headers and throws RateLimitError on a 429. */
+  private async request(endpoint: EndpointClass, url: string, init: RequestInit): Promise<Response> {
+    const res = await fetch(url, init);
+    const budget = parseRateLimitHeaders(res.headers);
+    if (budget) this.budgets[endpoint] = budget;
+    if (res.status === 429) throw new RateLimitError(endpoint, budget?.resetAt);
+    return res;
   }
 
-  async login(appPassword: string): Promise<void> {
-    const res = await fetch(`${this.serviceUrl}/xrpc/com.atproto.server.createSession`, {
+  async login(appPassword: string = this.appPassword): Promise<void> {
+    const res = await this.request('auth', `${this.serviceUrl}/xrpc/com.atproto.server.createSession`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -70,18 +197,43 @@ export class BlueskyDmClient {
         password: appPassword,
       }),
     });
-    if (res.status === 429) throw new RateLimitError();
     if (!res.ok) {
       const text = await res.text();
       throw new Error(`Bluesky login failed: ${res.status} ${text}`);
     }
-    const data = (await res.json()) as { accessJwt?: string; did?: string };
-    this.accessJwt = data.accessJwt || null;
-    this.ourDid = data.did || null;
+    await this.setSession((await res.json()) as { accessJwt?: string; refreshJwt?: string; did?: string });
+  }
+
+  /**
+   * Swap the refresh token for a new session (com.atproto.server.refreshSession).
+   * Returns false if there's no refresh token or Bluesky no longer accepts it.
+   */
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshJwt) return false;
+    const res = await this.request('auth', `${this.serviceUrl}/xrpc/com.atproto.server.refreshSession`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.refreshJwt}` },
+    });
+    if (!res.ok) {
+      console.warn('refreshSession failed:', res.status, await res.text());
+      return false;
+    }
+    const data = (await res.json()) as { accessJwt?: string; refreshJwt?: string; did?: string };
+    if (!data.accessJwt) return false;
+    await this.setSession(data);
+    return true;
   }
 
-  private getHeaders(): Record<string, string> {
+  /** Get a fresh access token: refresh the session, or log in again only if that fails. */
+  private async renewSession(): Promise<void> {
+    if (await this.refreshSession()) return;
+    console.log('Bluesky session could not be refreshed; logging in again');
+    await this.login();
+  }
+
+  private getHeaders(chat = true): Record<string, string> {
     if (!this.accessJwt) throw new Error('Not logged in');
+    if (!chat) return { Authorization: `Bearer ${this.accessJwt}` };
     return {
       Authorization: `Bearer ${this.accessJwt}`,
       'Content-Type': 'application/json',
@@ -89,6 +241,19 @@ export class BlueskyDmClient {
     };
   }
 
+  /**
+   * Authenticated request (chat endpoints get the chat proxy header). If the access token has
+   * expired or is rejected, renews the session and retries the request once.
+   */
+  private async authFetch(endpoint: EndpointClass, url: string, init: RequestInit = {}): Promise<Response> {
+    const chat = endpoint === 'chatRead' || endpoint === 'chatWrite';
+    const extra = (init.headers ?? {}) as Record<string, string>;
+    const res = await this.request(endpoint, url, { ...init, headers: { ...this.getHeaders(chat), ...extra } });
+    if (!(await isExpiredToken(res))) return res;
+    await this.renewSession();
+    return this.request(endpoint, url, { ...init, headers: { ...this.getHeaders(chat), ...extra } });
+  }
+
   /**
    * List conversations. Returns convos where lastMessage exists.
    */
@@ -97,8 +262,7 @@ export class BlueskyDmClient {
     params.append('limit', String(limit));
     if (cursor) params.append('cursor', cursor);
     const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.listConvos?${params}`;
-    const res = await fetch(url, { method: 'GET', headers: this.getHeaders() });
-    if (res.status === 429) throw new RateLimitError();
+    const res = await this.authFetch('chatRead', url, { method: 'GET' });
     if (!res.ok) {
       const text = await res.text();
       throw new Error(`listConvos failed: ${res.status} ${text}`);
@@ -120,6 +284,111 @@ export class BlueskyDmClient {
     return other?.did || null;
   }
 
+  /**
+   * Get the other participant (excluding ourselves), including handle when the API sent it.
+   */
+  getOtherParticipant(convo: Convo): ConvoParticipant | null {
+    const ourDid = this.ourDid;
+    if (!ourDid || !convo.members) return null;
+    return convo.members.find((m) => m.did !== ourDid) || null;
+  }
+
+  /**
+   * Fetch a user's profile (app.bsky.actor.getProfile). Returns null on failure.
+   */
+  async getProfile(actor: string): Promise<ActorProfile | null> {
+    const params = new URLSearchParams();
+    params.append('actor', actor);
+    const url = `${this.serviceUrl}/xrpc/app.bsky.actor.getProfile?${params}`;
+    const res = await this.authFetch('appView', url, { method: 'GET' });
+    if (!res.ok) {
+      console.error('getProfile failed:', res.status, await res.text());
+      return null;
+    }
+    return (await res.json()) as ActorProfile;
+  }
+
+  /**
+   * Languages tagged on the user's recent posts (app.bsky.feed.getAuthorFeed), most used first.
+   * Empty if they have no tagged posts or the feed can't be read.
+   */
+  async getRecentPostLangs(actor: string, limit = 10): Promise<string[]> {
+    const params = new URLSearchParams();
+    params.append('actor', actor);
+    params.append('limit', String(limit));
+    params.append('filter', 'posts_no_replies');
+    const url = `${this.serviceUrl}/xrpc/app.bsky.feed.getAuthorFeed?${params}`;
+    const res = await this.authFetch('appView', url, { method: 'GET' });
+    if (!res.ok) {
+      console.error('getAuthorFeed failed:', res.status, await res.text());
+      return [];
+    }
+    const data = (await res.json()) as { feed?: Array<{ post?: { record?: { langs?: string[] } } }> };
+    const counts = new Map<string, number>();
+    for (const item of data.feed ?? []) {
+      for (const lang of item.post?.record?.langs ?? []) counts.set(lang, (counts.get(lang) ?? 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([lang]) => lang);
+  }
+
+  /**
+   * Resolve a handle to a DID (com.atproto.identity.resolveHandle). Returns null if it doesn't resolve.
+   */
+  async resolveHandle(handle: string): Promise<string | null> {
+    const key = handle.replace(/^@/, '').toLowerCase();
+    if (this.handleCache.has(key)) return this.handleCache.get(key) ?? null;
+    const params = new URLSearchParams();
+    params.append('handle', key);
+    const url = `${this.serviceUrl}/xrpc/com.atproto.identity.resolveHandle?${params}`;
+    const res = await this.request('appView', url, { method: 'GET' });
+    let did: string | null = null;
+    if (res.ok) {
+      const data = (await res.json()) as { did?: string };
+      did = data.did || null;
+    }
+    this.handleCache.set(key, did);
+    return did;
+  }
+
+  /**
+   * Resolve a bsky.app post URL or at:// URI to a strong ref (uri + cid).
+   * Returns null if the input isn't a post link or the post can't be found.
+   */
+  async resolvePost(input: string): Promise<StrongRef | null> {
+    const trimmed = input.trim();
+    const m = trimmed.match(POST_URL_RE) || trimmed.match(POST_AT_URI_RE);
+    if (!m) return null;
+    const [, actor, rkey] = m;
+    const did = actor.startsWith('did:') ? actor : await this.resolveHandle(decodeURIComponent(actor));
+    if (!did) return null;
+    const params = new URLSearchParams();
+    params.append('uris', `at://${did}/app.bsky.feed.post/${rkey}`);
+    const url = `${this.serviceUrl}/xrpc/app.bsky.feed.getPosts?${params}`;
+    const res = await this.authFetch('appView', url, { method: 'GET' });
+    if (!res.ok) {
+      console.error('getPosts failed:', res.status, await res.text());
+      return null;
+    }
+    const data = (await res.json()) as { posts?: Array<{ uri?: string; cid?: string }> };
+    const post = data.posts?.[0];
+    if (!post?.uri || !post.cid) return null;
+    return { uri: post.uri, cid: post.cid };
+  }
+
+  /**
+   * Build link / mention / hashtag facets for a message. Unresolvable mentions stay plain text.
+   */
+  async buildMessageFacets(text: string): Promise<Facet[]> {
+    const spans = detectFacetSpans(text);
+    const mentionDids = new Map<string, string>();
+    for (const span of spans) {
+      if (span.type !== 'mention' || mentionDids.has(span.value)) continue;
+      const did = await this.resolveHandle(span.value);
+      if (did) mentionDids.set(span.value, did);
+    }
+    return buildFacets(text, spans, mentionDids);
+  }
+
   /**
    * Check if the last message in the convo was sent by the other user (not us).
    */
@@ -129,67 +398,234 @@ export class BlueskyDmClient {
     return last.sender?.did !== this.ourDid;
   }
 
+  /**
+   * Look back through a conversation (newest first) for our most recent message.
+   * silenceMs is the gap before the other user's new DM: from the last message before it (theirs
+   * or ours) to its first message. Messages they sent within SAME_DM_WINDOW_MS of each other are one DM.
+   */
+  async getConvoHistory(convoId: string): Promise<ConvoHistory> {
+    const ourDid = this.ourDid;
+    if (!ourDid) return { weHaveSent: false, silenceMs: null };
+    let cursor: string | undefined;
+    const maxMessagesToCheck = 200; // Cap to avoid too many API calls
+    let checked = 0;
+    /** Start of the new DM, while we're still reading it */
+    let newDmAt: number | null = null;
+    let silenceMs: number | null = null;
+    do {
+      const page = await this.getMessagesPage(convoId, cursor);
+      if (!page) return { weHaveSent: true, silenceMs: null }; // On error, assume we have history (skip)
+      for (const msg of page.messages) {
+        const ours = msg.sender?.did === ourDid;
+        const sentAt = Date.parse(msg.sentAt ?? '');
+        if (checked === 0 && !ours) {
+          newDmAt = sentAt;
+        } else if (newDmAt !== null) {
+          if (!ours && newDmAt - sentAt < SAME_DM_WINDOW_MS) {
+            newDmAt = sentAt;
+          } else {
+            const gap = newDmAt - sentAt;
+            silenceMs = Number.isFinite(gap) ? gap : null;
+            newDmAt = null;
+          }
+        }
+        if (ours) return { weHaveSent: true, silenceMs };
+        checked++;
+        if (checked >= maxMessagesToCheck) return { weHaveSent: true, silenceMs: null }; // Assume history when cap hit (safer)
+      }
+      cursor = page.cursor;
+    } while (cursor);
+    return { weHaveSent: false, silenceMs: null };
+  }
+
   /**
    * Check if we have ever sent a message in this conversation (existing convo = skip auto-reply).
    */
   async hasWeEverSentInConvo(convoId: string): Promise<boolean> {
+    return (await this.getConvoHistory(convoId)).weHaveSent;
+  }
+
+  /**
+   * When the other user first wrote after `since` (ISO), or null if they haven't or it can't be
+   * told (request failed, or too many messages since).
+   */
+  async getFirstReplyAt(convoId: string, since: string): Promise<string | null> {
     const ourDid = this.ourDid;
-    if (!ourDid) return false;
+    const sinceMs = Date.parse(since);
+    if (!ourDid || !Number.isFinite(sinceMs)) return null;
     let cursor: string | undefined;
-    const maxMessagesToCheck = 200; // Cap to avoid too many API calls
+    const maxMessagesToCheck = 200;
     let checked = 0;
+    let first: string | null = null;
     do {
-      const params = new URLSearchParams();
-      params.append('convoId', convoId);
-      params.append('limit', '50');
-      if (cursor) params.append('cursor', cursor);
-      const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.getMessages?${params}`;
-      const res = await fetch(url, { method: 'GET', headers: this.getHeaders() });
-      if (res.status === 429) throw new RateLimitError();
-      if (!res.ok) return true; // On error, assume we have history (skip)
-      const data = (await res.json()) as { messages?: Array<{ sender?: { did?: string } }>; cursor?: string };
-      const messages = data.messages || [];
-      for (const msg of messages) {
-        if (msg.sender && msg.sender.did === ourDid) return true;
+      const page = await this.getMessagesPage(convoId, cursor);
+      if (!page) return null;
+      for (const msg of page.messages) {
+        if (!msg.sentAt || Date.parse(msg.sentAt) <= sinceMs) return first;
+        if (msg.sender?.did !== ourDid) first = msg.sentAt;
         checked++;
-        if (checked >= maxMessagesToCheck) return true; // Assume history when cap hit (safer)
+        if (checked >= maxMessagesToCheck) return null;
       }
-      cursor = data.cursor;
+      cursor = page.cursor;
     } while (cursor);
-    return false;
+    return first;
+  }
+
+  /** One page of a conversation's messages, newest first. Returns null on failure. */
+  private async getMessagesPage(
+    convoId: string,
+    cursor?: string
+  ): Promise<{ messages: Array<{ sender?: { did?: string }; sentAt?: string }>; cursor?: string } | null> {
+    const params = new URLSearchParams();
+    params.append('convoId', convoId);
+    params.append('limit', '50');
+    if (cursor) params.append('cursor', cursor);
+    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.getMessages?${params}`;
+    const res = await this.authFetch('chatRead', url, { method: 'GET' });
+    if (!res.ok) return null;
+    const data = (await res.json()) as {
+      messages?: Array<{ sender?: { did?: string }; sentAt?: string }>;
+      cursor?: string;
+    };
+    return { messages: data.messages || [], cursor: data.cursor };
   }
 
   /**
-   * Send a DM in an existing conversation.
+   * Read the chat event log after `cursor` (chat.bsky.convo.getLog). Without a cursor Bluesky
+   * returns the current position. Returns null on failure, e.g. a cursor it no longer accepts.
    */
-  async sendMessage(convoId: string, text: string): Promise<boolean> {
-    const safeText = truncateMessage(text.trim());
-    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.sendMessage`;
-    const res = await fetch(url, {
+  async getLog(cursor?: string): Promise<{ logs: ConvoLogEntry[]; cursor?: string } | null> {
+    const params = new URLSearchParams();
+    if (cursor) params.append('cursor', cursor);
+    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.getLog?${params}`;
+    const res = await this.authFetch('chatRead', url, { method: 'GET' });
+    if (!res.ok) {
+      console.error('getLog failed:', res.status, await res.text());
+      return null;
+    }
+    const data = (await res.json()) as { logs?: ConvoLogEntry[]; cursor?: string };
+    return { logs: data.logs || [], cursor: data.cursor };
+  }
+
+  /** Our DID, once logged in. */
+  getOurDid(): string | null {
+    return this.ourDid;
+  }
+
+  /**
+   * Fetch a single conversation (members + last message). Returns null on failure.
+   */
+  async getConvo(convoId: string): Promise<Convo | null> {
+    const params = new URLSearchParams();
+    params.append('convoId', convoId);
+    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.getConvo?${params}`;
+    const res = await this.authFetch('chatRead', url, { method: 'GET' });
+    if (!res.ok) {
+      console.error('getConvo failed:', res.status, await res.text());
+      return null;
+    }
+    const data = (await res.json()) as { convo?: Convo };
+    return data.convo || null;
+  }
+
+  /** POST a chat.bsky.convo.* procedure that takes just a convo ID. Returns false on failure. */
+  private async convoAction(method: string, convoId: string): Promise<boolean> {
+    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.${method}`;
+    const res = await this.authFetch('chatWrite', url, { method: 'POST', body: JSON.stringify({ convoId }) });
+    if (!res.ok) {
+      console.error(`${method} failed:`, res.status, await res.text());
+      return false;
+    }
+    return true;
+  }
+
+  /** Accept a DM request (chat.bsky.convo.acceptConvo). */
+  async acceptConvo(convoId: string): Promise<boolean> {
+    return this.convoAction('acceptConvo', convoId);
+  }
+
+  /** Mute a conversation (chat.bsky.convo.muteConvo). */
+  async muteConvo(convoId: string): Promise<boolean> {
+    return this.convoAction('muteConvo', convoId);
+  }
+
+  async unmuteConvo(convoId: string): Promise<boolean> {
+    return this.convoAction('unmuteConvo', convoId);
+  }
+
+  /** Leave a conversation; it disappears from our list (chat.bsky.convo.leaveConvo). */
+  async leaveConvo(convoId: string): Promise<boolean> {
+    return this.convoAction('leaveConvo', convoId);
+  }
+
+  /**
+   * Report an account as spam to Bluesky moderation (com.atproto.moderation.createReport).
+   * Returns false on failure.
+   */
+  async reportSpam(did: string, reason: string): Promise<boolean> {
+    const url = `${this.serviceUrl}/xrpc/com.atproto.moderation.createReport`;
+    const res = await this.authFetch('appView', url, {
       method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({ convoId, message: { text: safeText } }),
+      headers: { 'Content-Type': 'application/json', 'atproto-proxy': MODERATION_PROXY_HEADER },
+      body: JSON.stringify({
+        reasonType: 'com.atproto.moderation.defs#reasonSpam',
+        reason: reason.slice(0, 2000),
+        subject: { $type: 'com.atproto.admin.defs#repoRef', did },
+      }),
     });
-    if (res.status === 429) throw new RateLimitError();
     if (!res.ok) {
-      console.error('sendMessage failed:', res.status, await res.text());
+      console.error('createReport failed:', res.status, await res.text());
       return false;
     }
     return true;
   }
 
+  /**
+   * Send a DM in an existing conversation, optionally embedding a post.
+   * `lang` is the message's language, for cutting it to length. Returns the sent message's ID, or null on failure.
+   */
+  async sendMessage(convoId: string, text: string, embed?: StrongRef, lang?: string): Promise<string | null> {
+    const safeText = truncateMessage(text.trim(), lang);
+    const facets = await this.buildMessageFacets(safeText);
+    const message: { text: string; facets?: Facet[]; embed?: RecordEmbed } = { text: safeText };
+    if (facets.length > 0) message.facets = facets;
+    if (embed) message.embed = { $type: 'app.bsky.embed.record', record: { uri: embed.uri, cid: embed.cid } };
+    const url = `${this.serviceUrl}/xrpc/chat.bsky.convo.sendMessage`;
+    const res = await this.authFetch('chatWrite', url, {
+      method: 'POST',
+      body: JSON.stringify({ convoId, message }),
+    });
+    if (!res.ok) {
+      console.error('sendMessage failed:', res.status, await res.text());
+      return null;
+    }
+    const data = (await res.json()) as { id?: string };
+    if (!data.id) {
+      // Follow-up sequences need the ID to tell whether anyone wrote since
+      console.error('sendMessage returned no message ID');
+      return null;
+    }
+    return data.id;
+  }
+
   /**
    * Get or create a conversation with a user and send a message.
    * Uses getConvoAvailability and getConvoForMembers like bluesky-client.
+   * Failures come back as a result code; a 429 is reported as `rateLimited` rather than thrown.
    */
-  async sendDmToUser(userDid: string, text: string): Promise<boolean> {
+  async sendDmToUser(userDid: string, text: string, embed?: StrongRef): Promise<SendDmResult> {
     const ourDid = this.ourDid;
-    if (!ourDid) {
-      console.error('Cannot send DM: not logged in');
-      return false;
+    if (!ourDid) return { ok: false, code: 'notLoggedIn', message: 'Not logged in to Bluesky' };
+    try {
+      return await this.openConvoAndSend(ourDid, userDid, text, embed);
+    } catch (err) {
+      if (err instanceof RateLimitError) return { ok: false, code: 'rateLimited', message: err.message };
+      throw err;
     }
+  }
 
-    const headers = this.getHeaders();
+  /** The steps of sendDmToUser; a 429 is thrown as RateLimitError. */
+  private async openConvoAndSend(ourDid: string, userDid: string, text: string, embed?: StrongRef): Promise<SendDmResult> {
     const safeText = truncateMessage(text.trim());
 
     // 1. Check if we can chat
@@ -197,15 +633,16 @@ export class BlueskyDmClient {
     availParams.append('members', ourDid);
     availParams.append('members', userDid);
     const availUrl = `${this.serviceUrl}/xrpc/chat.bsky.convo.getConvoAvailability?${availParams}`;
-    const availRes = await fetch(availUrl, { method: 'GET', headers });
+    const availRes = await this.authFetch('chatRead', availUrl, { method: 'GET' });
     if (!availRes.ok) {
-      console.error('getConvoAvailability failed:', availRes.status, await availRes.text());
-      return false;
+      const body = await availRes.text();
+      console.error('getConvoAvailability failed:', availRes.status, body);
+      return { ok: false, code: 'availabilityFailed', message: `getConvoAvailability failed (${availRes.status}): ${body}` };
     }
     const availData = (await availRes.json()) as { canChat?: boolean; convo?: { id?: string } };
     if (!availData.canChat) {
       console.log(`User ${userDid} has DMs restricted, skipping`);
-      return false;
+      return { ok: false, code: 'dmsRestricted', message: 'This account does not accept DMs from you' };
     }
 
     let convoId: string;
@@ -216,19 +653,22 @@ export class BlueskyDmClient {
       convoParams.append('members', ourDid);
       convoParams.append('members', userDid);
       const convoUrl = `${this.serviceUrl}/xrpc/chat.bsky.convo.getConvoForMembers?${convoParams}`;
-      const convoRes = await fetch(convoUrl, { method: 'GET', headers });
+      const convoRes = await this.authFetch('chatRead', convoUrl, { method: 'GET' });
       if (!convoRes.ok) {
-        console.error('getConvoForMembers failed:', convoRes.status, await convoRes.text());
-        return false;
+        const body = await convoRes.text();
+        console.error('getConvoForMembers failed:', convoRes.status, body);
+        return { ok: false, code: 'convoCreateFailed', message: `Could not create the conversation (${convoRes.status}): ${body}` };
       }
       const convoData = (await convoRes.json()) as { convo?: { id?: string } };
       convoId = convoData.convo?.id || '';
       if (!convoId) {
         console.error('No convo ID');
-        return false;
+        return { ok: false, code: 'convoCreateFailed', message: 'Bluesky returned no conversation ID' };
       }
     }
 
-    return this.sendMessage(convoId, safeText);
+    const messageId = await this.sendMessage(convoId, safeText, embed);
+    if (messageId === null) return { ok: false, code: 'sendFailed', message: 'Bluesky rejected the message' };
+    return { ok: true, convoId, messageId };
   }
 }
@@ -0,0 +1,86 @@
+/**
+ * How the cron finds new DMs. Normally it reads the chat event log (chat.bsky.convo.getLog)
+ * from a stored cursor, so a run only looks at conversations that changed since the last one.
+ * A full listConvos scan is used on first start, when the log cursor stops working, and when
+ * the admin asks for a resync; it can span several runs and resumes where it stopped. The log is
+ * read alongside it from the run after it starts, so new DMs don't wait for it to finish.
+ */
+
+import { ConvoLogEntry } from './bluesky-dm';
+import { AccountStore } from './types';
+
+const SYNC_KEY = 'chat_sync';
+/** Conversations carried over to the next run when a run can't get to them */
+const MAX_PENDING = 200;
+
+export interface FullScanPosition {
+  listCursor?: string;
+  offset: number;
+  startedAt: string;
+}
+
+export interface ChatSyncState {
+  /** getLog cursor; events after it haven't been read yet */
+  logCursor?: string;
+  /** Set while a full scan is in progress: the listConvos page to resume from and how far into it */
+  scan?: FullScanPosition;
+  /** Convos seen in the log but not handled yet (run caps, profile lookup limit) */
+  pending: string[];
+  lastFullScanAt?: string;
+}
+
+export async function getChatSyncState(kv: AccountStore): Promise<ChatSyncState> {
+  const raw = await kv.get(SYNC_KEY);
+  if (!raw) return { pending: [] };
+  try {
+    const parsed = JSON.parse(raw) as ChatSyncState;
+    return { ...parsed, pending: Array.isArray(parsed.pending) ? parsed.pending : [] };
+  } catch {
+    return { pending: [] };
+  }
+}
+
+export async function saveChatSyncState(kv: AccountStore, state: ChatSyncState): Promise<void> {
+  await kv.put(SYNC_KEY, JSON.stringify({ ...state, pending: state.pending.slice(0, MAX_PENDING) }));
+}
+
+/** True if the next run has to scan all conversations instead of reading the log. */
+export function needsFullScan(state: ChatSyncState): boolean {
+  return !!state.scan || !state.logCursor;
+}
+
+/** Start over with a full scan (first run, the admin "Resync" action, or after a log failure). */
+export function startFullScan(state: ChatSyncState, now: Date): FullScanPosition {
+  state.scan = { offset: 0, startedAt: now.toISOString() };
+  delete state.logCursor;
+  state.pending = [];
+  return state.scan;
+}
+
+export interface LogConvoChange {
+  convoId: string;
+  /** The convo started within these events and we haven't sent anything in it */
+  isNew: boolean;
+}
+
+/**
+ * Conversations where someone else sent a message or a request was accepted, in the order
+ * they first appear. `isNew` lets the caller skip the message history check for brand-new convos.
+ */
+export function convosWithNewMessages(logs: ConvoLogEntry[], ourDid: string): LogConvoChange[] {
+  const begun = new Set<string>();
+  const weSent = new Set<string>();
+  const changed: string[] = [];
+  for (const entry of logs) {
+    if (entry.$type === 'chat.bsky.convo.defs#logBeginConvo') {
+      begun.add(entry.convoId);
+    } else if (entry.$type === 'chat.bsky.convo.defs#logAcceptConvo') {
+      // A request accepted by hand may be waiting for its auto-reply
+      if (!changed.includes(entry.convoId)) changed.push(entry.convoId);
+    } else if (entry.$type === 'chat.bsky.convo.defs#logCreateMessage' && entry.message?.sender?.did) {
+      if (entry.message.sender.did === ourDid) weSent.add(entry.convoId);
+      else if (!changed.includes(entry.convoId)) changed.push(entry.convoId);
+    }
+  }
+  return changed.map((convoId) => ({ convoId, isNew: begun.has(convoId) && !weSent.has(convoId) }));
+}
@@ -0,0 +1,129 @@
+/**
+ * Config version history: every saved change to the settings or reply rules is kept as a
+ * snapshot (`config_version:<n>`) with its time and an optional note, listed newest first in
+ * `config_history`. The admin can diff any two versions and restore an earlier one.
+ */
+
+import { AccountStore, BotConfig, ReplyRule } from './types';
+
+const HISTORY_KEY = 'config_history';
+const VERSION_PREFIX = 'config_version:';
+export const MAX_VERSIONS = 60;
+/** Beyond this many line pairs the diff just shows the old text removed and the new one added */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/** Settings plus the reply rules, which are stored under their own key */
+export interface ConfigSnapshot extends BotConfig {
+  /** Missing in versions saved before rules were versioned */
+  rules?: ReplyRule[];
+}
+
+export interface ConfigVersion {
+  version: number;
+  savedAt: string;
+  note?: string;
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Newest first. */
+export async function getConfigHistory(kv: AccountStore): Promise<ConfigVersion[]> {
+  const raw = await kv.get(HISTORY_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as ConfigVersion[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function getConfigVersion(kv: AccountStore, version: number): Promise<ConfigSnapshot | null> {
+  const raw = await kv.get(`${VERSION_PREFIX}${version}`);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ConfigSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+/** Store a snapshot of the config as the next version and drop the oldest beyond MAX_VERSIONS. */
+export async function recordConfigVersion(
+  kv: AccountStore,
+  config: ConfigSnapshot,
+  note?: string
+): Promise<ConfigVersion> {
+  const history = await getConfigHistory(kv);
+  const entry: ConfigVersion = { version: (history[0]?.version ?? 0) + 1, savedAt: new Date().toISOString() };
+  if (note?.trim()) entry.note = note.trim().slice(0, 200);
+  await kv.put(`${VERSION_PREFIX}${entry.version}`, JSON.stringify(config));
+  const kept = [entry, ...history];
+  for (const old of kept.splice(MAX_VERSIONS)) {
+    await kv.delete(`${VERSION_PREFIX}${old.version}`);
+  }
+  await kv.put(HISTORY_KEY, JSON.stringify(kept));
+  return entry;
+}
+
+/** The admin password hash is never shown. */
+function redact(config: ConfigSnapshot): Record<string, unknown> {
+  const { adminPasswordHash, ...rest } = config;
+  return adminPasswordHash ? { ...rest, adminPasswordHash: '(set)' } : rest;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+/** Config as indented JSON with sorted keys, so diffs only show real changes. */
+export function configText(config: ConfigSnapshot): string {
+  return JSON.stringify(sortKeys(redact(config)), null, 2);
+}
+
+/** Line diff (longest common subsequence) of two texts. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: 'removed', text })),
+      ...b.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+  }
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
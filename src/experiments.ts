@@ -0,0 +1,132 @@
+/**
+ * A/B testing of the welcome message. Each recipient is assigned a variant by a hash of
+ * their DID (weighted), so the same person always falls in the same bucket. The variant is
+ * recorded in the ledger; when the person writes back within the response window the
+ * response is counted. Per-variant counts live in one KV value, saved once per run.
+ */
+
+import { AccountStore, ExperimentSettings, WelcomeVariant } from './types';
+import { validateTemplate } from './templates';
+
+const STATS_KEY = 'experiment_stats';
+const MAX_VARIANTS = 5;
+const MAX_WINDOW_HOURS = 24 * 30;
+/** Response times kept per variant for the median (newest last) */
+const MAX_SAMPLES = 200;
+
+export interface VariantStats {
+  sends: number;
+  responses: number;
+  /** Time from our reply to their answer, in ms */
+  responseMs: number[];
+}
+
+export interface ExperimentStats {
+  startedAt: string;
+  variants: Record<string, VariantStats>;
+}
+
+export function defaultExperiment(): ExperimentSettings {
+  return { enabled: false, responseWindowHours: 48, variants: [] };
+}
+
+/**
+ * Validate and normalize experiment settings from the admin API.
+ */
+export function validateExperiment(input: unknown): { settings: ExperimentSettings } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'experiment must be an object' };
+  const e = input as Partial<ExperimentSettings>;
+  const responseWindowHours = Math.round(Number(e.responseWindowHours ?? 48));
+  if (!Number.isFinite(responseWindowHours) || responseWindowHours < 1 || responseWindowHours > MAX_WINDOW_HOURS) {
+    return { error: `Response window must be between 1 and ${MAX_WINDOW_HOURS} hours` };
+  }
+  if (!Array.isArray(e.variants)) return { error: 'experiment.variants must be an array' };
+  if (e.variants.length > MAX_VARIANTS) return { error: `At most ${MAX_VARIANTS} variants` };
+  const variants: WelcomeVariant[] = [];
+  for (const [i, raw] of (e.variants as Partial<WelcomeVariant>[]).entries()) {
+    const v = raw ?? {};
+    const name = String(v.name ?? '').trim() || `Variant ${String.fromCharCode(65 + i)}`;
+    const message = String(v.message ?? '').trim();
+    if (!message) return { error: `${name}: message is empty` };
+    if (message.length > 1000) return { error: `${name}: message exceeds 1000 characters` };
+    const templateError = validateTemplate(message);
+    if (templateError) return { error: `${name}: ${templateError}` };
+    const weight = Math.round(Number(v.weight ?? 1));
+    if (!Number.isFinite(weight) || weight < 0 || weight > 100) return { error: `${name}: weight must be between 0 and 100` };
+    variants.push({ id: v.id && typeof v.id === 'string' ? v.id : crypto.randomUUID(), name, message, weight });
+  }
+  if (e.enabled && variants.filter((v) => v.weight > 0).length < 2) {
+    return { error: 'An A/B test needs at least two variants with a weight above 0' };
+  }
+  return { settings: { enabled: !!e.enabled, responseWindowHours, variants } };
+}
+
+/** 32-bit FNV-1a; stable across runs, which Math.random() wouldn't be. */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** The variant for a recipient: random by weight, but always the same for the same DID. */
+export function assignVariant(settings: ExperimentSettings, did: string): WelcomeVariant | null {
+  const total = settings.variants.reduce((sum, v) => sum + v.weight, 0);
+  if (total === 0) return null;
+  let point = (hashString(did) / 0x100000000) * total;
+  for (const variant of settings.variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return settings.variants[settings.variants.length - 1];
+}
+
+/** Ms from our reply to their message if it came within the response window, else null. */
+export function responseDelay(repliedAt: string | undefined, messageSentAt: string | undefined, windowHours: number): number | null {
+  const delay = Date.parse(messageSentAt ?? '') - Date.parse(repliedAt ?? '');
+  if (!Number.isFinite(delay) || delay < 0 || delay > windowHours * 60 * 60 * 1000) return null;
+  return delay;
+}
+
+export async function getExperimentStats(kv: AccountStore): Promise<ExperimentStats> {
+  const raw = await kv.get(STATS_KEY);
+  if (!raw) return { startedAt: new Date().toISOString(), variants: {} };
+  try {
+    const parsed = JSON.parse(raw) as ExperimentStats;
+    return { startedAt: parsed.startedAt, variants: parsed.variants ?? {} };
+  } catch {
+    return { startedAt: new Date().toISOString(), variants: {} };
+  }
+}
+
+export async function saveExperimentStats(kv: AccountStore, stats: ExperimentStats): Promise<void> {
+  await kv.put(STATS_KEY, JSON.stringify(stats));
+}
+
+/** Start counting from zero (after promoting a winner or changing the test). */
+export async function resetExperimentStats(kv: AccountStore): Promise<void> {
+  await kv.delete(STATS_KEY);
+}
+
+function statsFor(stats: ExperimentStats, variantId: string): VariantStats {
+  return (stats.variants[variantId] ??= { sends: 0, responses: 0, responseMs: [] });
+}
+
+export function noteVariantSend(stats: ExperimentStats, variantId: string): void {
+  statsFor(stats, variantId).sends++;
+}
+
+export function noteVariantResponse(stats: ExperimentStats, variantId: string, delayMs: number): void {
+  const s = statsFor(stats, variantId);
+  s.responses++;
+  s.responseMs = [...s.responseMs, delayMs].slice(-MAX_SAMPLES);
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -1,21 +1,200 @@
-import { Env, BotConfig } from './types';
-import { BlueskyDmClient, RateLimitError } from './bluesky-dm';
+import { AccountEnv, AccountStore, Env, BotConfig, ReplyRule, RequestAction, WelcomeLanguage } from './types';
+import { ActorProfile, BlueskyDmClient, BlueskySession, Convo, RateLimitError, SendDmErrorCode, SendDmResult, StrongRef } from './bluesky-dm';
+import { getRules, saveRules, validateRules, matchRule } from './rules';
+import {
+  SequenceState,
+  getSequences,
+  saveSequences,
+  startSequence,
+  finishSequence,
+  nextDueAt,
+  validateFollowUps,
+} from './sequences';
+import {
+  ReplyKind,
+  getLedgerEntry,
+  repliedSince,
+  recordReply,
+  recordResponse,
+  resetLedgerEntry,
+  listLedger,
+  searchLedger,
+  resetLedgerBatch,
+} from './ledger';
+import {
+  AccessListName,
+  getAccessLists,
+  saveAccessLists,
+  addToAccessList,
+  removeFromAccessList,
+  checkAccessLists,
+} from './access-lists';
+import {
+  hasAudienceFilters,
+  getCachedAudienceFacts,
+  lookupAudienceFacts,
+  checkAudience,
+  validateAudienceFilters,
+  defaultAudienceFilters,
+} from './audience';
+import {
+  ActivityRun,
+  ActivityFilter,
+  SkipReason,
+  startRun,
+  recordSkip,
+  recordError,
+  saveRun,
+  getActivity,
+  filterActivity,
+} from './activity';
+import {
+  WebhookEvent,
+  WebhookEventData,
+  WEBHOOK_EVENT_TYPES,
+  createWebhookEvent,
+  deliverWebhooks,
+  getWebhooks,
+  saveWebhooks,
+  validateWebhooks,
+  getDeliveries,
+} from './webhooks';
+import {
+  ScheduledSend,
+  getSendQueue,
+  saveSendQueue,
+  scheduleSend,
+  dueSends,
+  noteFailedSend,
+  removeScheduledSend,
+} from './send-queue';
+import {
+  RateLimitState,
+  getRateLimitState,
+  saveRateLimitState,
+  isPaused,
+  budgetCap,
+  updateBudgets,
+  recordRateLimited,
+  recordHealthyRun,
+} from './rate-limits';
+import {
+  ChatSyncState,
+  LogConvoChange,
+  getChatSyncState,
+  saveChatSyncState,
+  needsFullScan,
+  startFullScan,
+  convosWithNewMessages,
+} from './chat-sync';
+import {
+  PreviewItem,
+  getPreviewQueue,
+  savePreviewQueue,
+  isPreviewQueueFull,
+  queuePreview,
+  removeFromPreview,
+} from './preview';
+import {
+  BotAccount,
+  DEFAULT_ACCOUNT_ID,
+  getAccounts,
+  saveAccounts,
+  canAddAccount,
+  listAccountSummaries,
+  encryptPassword,
+  getAccountEnv,
+  deleteAccountData,
+} from './accounts';
+import { reengagementAfterMs, validateReengagement, defaultReengagement } from './reengagement';
+import { defaultRequestPolicy, validateRequestPolicy } from './message-requests';
+import { WELCOME_LANGUAGES, LANGUAGE_NAMES, detectLanguage, languageFromTags, validateWelcomeMessages } from './language';
+import {
+  MAX_VERSIONS,
+  getConfigHistory,
+  getConfigVersion,
+  recordConfigVersion,
+  configText,
+  diffLines,
+} from './config-history';
+import { RETENTION_DAYS, SkippedDm, getAnalytics, metricsFromRun, recordRunMetrics, lastDays, analyticsCsv } from './analytics';
+import {
+  ExperimentStats,
+  defaultExperiment,
+  validateExperiment,
+  assignVariant,
+  responseDelay,
+  getExperimentStats,
+  saveExperimentStats,
+  resetExperimentStats,
+  noteVariantSend,
+  noteVariantResponse,
+  median,
+} from './experiments';
+import {
+  Fingerprints,
+  ModerationEntry,
+  defaultSpamSettings,
+  validateSpamSettings,
+  scoreMessage,
+  ageInDays,
+  textFingerprint,
+  getFingerprints,
+  saveFingerprints,
+  noteFingerprint,
+  getModerationLog,
+  saveModerationLog,
+  truncateForLog,
+} from './spam';
+import { isWithinBusinessHours, nextOpening, validateSchedule, defaultSchedule } from './schedule';
+import { renderTemplate, needsProfile, validateTemplate, isValidTimeZone, TEMPLATE_VARIABLES } from './templates';
 
 const CONFIG_KEY = 'config';
 const SESSION_KEY = 'bsky_session';
-const BSKY_SESSION_TTL_SEC = 3600; // 1 hour — reduces login calls (Bluesky limit: 300/day)
-const REPLIED_PREFIX = 'replied:';
+const BSKY_SESSION_TTL_SEC = 30 * 24 * 3600; // 30 days — refreshed in place, so logins are rare (Bluesky limit: 300/day)
 const DEFAULT_WELCOME = "Hi! Thanks for reaching out. How can I help you today?";
 const MAX_DELAY_SECONDS = 300;
 const MAX_REPLIES_PER_RUN = 10; // Cap to avoid spam flags
 const MAX_HISTORY_CHECKS_PER_RUN = 15; // Cap getMessages calls (checks if convo is new)
+/** Activity log detail for DM requests the policy didn't accept */
+const REQUEST_SKIP_DETAILS: Record<RequestAction, string> = {
+  accept: 'accepted',
+  wait: 'left in requests',
+  mute: 'muted',
+  leave: 'left the conversation',
+};
+/** Skip reasons as shown on the activity and analytics pages */
+const SKIP_LABELS: Record<SkipReason, string> = {
+  blocked: 'blocked / not allowlisted',
+  alreadyReplied: 'already replied',
+  filtered: 'filtered',
+  lookupLimit: 'profile lookup limit (retried next run)',
+  profileUnavailable: 'profile unavailable',
+  hasHistory: 'has history',
+  repliedByOtherRun: 'replied by another run',
+  queuedForPreview: 'already in the dry-run queue',
+  scheduled: 'reply already scheduled',
+  messageRequest: 'DM request',
+  spam: 'flagged as spam',
+};
+const MAX_LOG_PAGES_PER_RUN = 10; // getLog pages read per run; the rest is read next run
+const MAX_PROFILE_LOOKUPS_PER_RUN = 15; // Cap getProfile calls for audience filters (cached results are free)
 const DELAY_BETWEEN_SENDS_MS = 3000; // 3 seconds between DMs when replying to multiple users
+const CRON_TIME_BUDGET_MS = 50_000; // All accounts share one run; stop picking up new DMs before the next run starts
+const SEND_ERROR_STATUS: Record<SendDmErrorCode, number> = {
+  notLoggedIn: 502,
+  dmsRestricted: 403,
+  availabilityFailed: 502,
+  convoCreateFailed: 502,
+  sendFailed: 502,
+  rateLimited: 429,
+};
 
 function clampDelay(val: number): number {
   return Math.min(MAX_DELAY_SECONDS, Math.max(0, Math.round(Number(val)) || 0));
 }
 
-async function getConfig(kv: KVNamespace): Promise<BotConfig> {
+async function getConfig(kv: AccountStore): Promise<BotConfig> {
   const raw = await kv.get(CONFIG_KEY);
   if (!raw) {
     return {
@@ -30,8 +209,24 @@ async function getConfig(kv: KVNamespace): Promise<BotConfig> {
   return parsed;
 }
 
-async function saveConfig(kv: KVNamespace, config: BotConfig): Promise<void> {
-  await kv.put(CONFIG_KEY, JSON.stringify(config));
+/**
+ * Save the settings (and the reply rules, if given) and keep the new state of both as a version
+ * in the config history. Saving without changes writes nothing. The first save after upgrading
+ * also keeps the settings from before, so they can be restored.
+ */
+async function saveConfig(kv: AccountStore, config: BotConfig, note?: string, rules?: ReplyRule[]): Promise<void> {
+  const json = JSON.stringify(config);
+  const previous = await kv.get(CONFIG_KEY);
+  const previousRules = await getRules(kv);
+  const rulesChanged = rules !== undefined && JSON.stringify(rules) !== JSON.stringify(previousRules);
+  if (previous === json && !rulesChanged) return;
+  if (previous !== json) await kv.put(CONFIG_KEY, json);
+  if (rules && rulesChanged) await saveRules(kv, rules);
+  if (previous && (await getConfigHistory(kv)).length === 0) {
+    const before = { ...(JSON.parse(previous) as BotConfig), rules: previousRules };
+    await recordConfigVersion(kv, before, 'Settings before version history');
+  }
+  await recordConfigVersion(kv, { ...config, rules: rules ?? previousRules }, note);
 }
 
 async function hashPassword(password: string): Promise<string> {
@@ -50,18 +245,31 @@ async function verifyPassword(password: string, hash: string): Promise<boolean>
 
 const SESSION_COOKIE_NAME = 'admin_session';
 const ADMIN_SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+const ACCOUNT_COOKIE_NAME = 'admin_account';
 
-function getSessionFromRequest(request: Request): string | null {
+function getCookie(request: Request, cookieName: string): string | null {
   const cookieHeader = request.headers.get('Cookie');
   if (!cookieHeader) return null;
   const parts = cookieHeader.split(';').map((p) => p.trim());
   for (const part of parts) {
     const [name, value] = part.split('=').map((s) => s.trim());
-    if (name === SESSION_COOKIE_NAME && value) return value;
+    if (name === cookieName && value) return value;
   }
   return null;
 }
 
+function getSessionFromRequest(request: Request): string | null {
+  return getCookie(request, SESSION_COOKIE_NAME);
+}
+
+/** Account the admin is working on: the one picked in the admin panel, else the first one. */
+function selectAccountId(request: Request, env: Env, accounts: BotAccount[]): string {
+  const summaries = listAccountSummaries(env, accounts);
+  const picked = getCookie(request, ACCOUNT_COOKIE_NAME);
+  if (picked && summaries.some((a) => a.id === picked)) return picked;
+  return summaries[0]?.id ?? DEFAULT_ACCOUNT_ID;
+}
+
 async function createSession(secret: string): Promise<string> {
   const payload = { exp: Math.floor(Date.now() / 1000) + ADMIN_SESSION_TTL_SEC };
   const data = JSON.stringify(payload);
@@ -112,10 +320,24 @@ function sessionCookie(token: string, baseUrl: string): string {
   return `${SESSION_COOKIE_NAME}=${token}; Path=/; HttpOnly; ${secure}SameSite=Lax; Max-Age=${ADMIN_SESSION_TTL_SEC}`;
 }
 
+function accountCookie(id: string, baseUrl: string): string {
+  const secure = new URL(baseUrl).protocol === 'https:' ? 'Secure; ' : '';
+  return `${ACCOUNT_COOKIE_NAME}=${encodeURIComponent(id)}; Path=/admin; HttpOnly; ${secure}SameSite=Lax; Max-Age=${ADMIN_SESSION_TTL_SEC}`;
+}
+
 function clearSessionCookie(_baseUrl: string): string {
   return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
 }
 
+function getScheduleStatus(config: BotConfig): { enabled: boolean; open: boolean; backAt: string | null } {
+  const schedule = config.schedule;
+  if (!schedule?.enabled) return { enabled: false, open: true, backAt: null };
+  const now = new Date();
+  const timeZone = config.timeZone || 'UTC';
+  const open = isWithinBusinessHours(schedule, timeZone, now);
+  return { enabled: true, open, backAt: open ? null : nextOpening(schedule, timeZone, now) };
+}
+
 function jsonResponse(data: unknown, status = 200): Response {
   return new Response(JSON.stringify(data), {
     status,
@@ -123,13 +345,263 @@ function jsonResponse(data: unknown, status = 200): Response {
   });
 }
 
+/**
+ * Use the cached Bluesky session if there is one; otherwise log in.
+ * Sessions the client refreshes (or logs in again for) are written back to the cache.
+ */
+async function ensureSession(kv: AccountStore, client: BlueskyDmClient, appPassword: string): Promise<void> {
+  client.onSessionChange(async (session) => {
+    await kv.put(SESSION_KEY, JSON.stringify(session), { expirationTtl: BSKY_SESSION_TTL_SEC });
+  });
+
+  const cached = await kv.get(SESSION_KEY);
+  if (cached) {
+    try {
+      const session = JSON.parse(cached) as BlueskySession;
+      if (session.accessJwt && session.did) {
+        client.setCachedSession(session);
+      }
+    } catch {
+      /* ignore invalid cache */
+    }
+  }
+
+  if (!client.getSessionForCache()) {
+    await client.login(appPassword);
+  }
+}
+
+/**
+ * Logged-in client for admin actions. Throws if Bluesky credentials aren't configured.
+ */
+async function getAdminClient(env: AccountEnv): Promise<BlueskyDmClient> {
+  if (!env.BSKY_HANDLE || !env.BSKY_APP_PASSWORD) {
+    throw new Error('BSKY_HANDLE or BSKY_APP_PASSWORD not set');
+  }
+  const client = new BlueskyDmClient(env.BSKY_HANDLE, env.BSKY_APP_PASSWORD, env.BSKY_SERVICE_URL || 'https://bsky.social');
+  await ensureSession(env.BOT_CONFIG, client, env.BSKY_APP_PASSWORD);
+  return client;
+}
+
+/**
+ * Fill in template placeholders for the sender of a convo.
+ * Looks up the profile only when the template needs handle / display name the convo didn't include.
+ */
+async function renderReply(
+  client: BlueskyDmClient,
+  convo: Convo,
+  senderDid: string,
+  template: string,
+  config: BotConfig,
+  backAt?: string,
+  locale?: string
+): Promise<string> {
+  const participant = client.getOtherParticipant(convo);
+  let handle = participant?.handle;
+  let displayName = participant?.displayName;
+  if (needsProfile(template) && (!handle || !displayName)) {
+    const profile = await client.getProfile(senderDid);
+    if (profile) {
+      handle = profile.handle;
+      displayName = profile.displayName;
+    }
+  }
+  return renderTemplate(template, {
+    did: senderDid,
+    handle,
+    displayName,
+    messageText: convo.lastMessage?.text,
+    now: new Date(),
+    timeZone: config.timeZone,
+    backAt,
+    locale,
+  });
+}
+
+/**
+ * Send follow-up steps that are due, up to `budget` messages. Updates `sequences` in place.
+ * A sequence stops once its convo has a newer message than the bot's last one (someone replied).
+ * Returns the number of follow-ups sent.
+ */
+async function processFollowUps(
+  sequences: SequenceState[],
+  client: BlueskyDmClient,
+  config: BotConfig,
+  budget: number
+): Promise<number> {
+  const steps = config.followUps ?? [];
+  let sentCount = 0;
+  for (const state of sequences) {
+    if (sentCount >= budget) break;
+    if (state.status !== 'active') continue;
+    const dueAt = nextDueAt(state, steps);
+    if (!dueAt) {
+      // Steps were removed from the config since this sequence started
+      finishSequence(state, 'completed');
+      continue;
+    }
+    if (dueAt.getTime() > Date.now()) continue;
+
+    const convo = await client.getConvo(state.convoId);
+    if (!convo) continue;
+    const last = convo.lastMessage;
+    if (!last || last.id !== state.lastMessageId) {
+      finishSequence(state, 'stopped', last?.sender?.did === state.did ? 'user replied' : 'we replied');
+      continue;
+    }
+
+    const text = await renderReply(client, convo, state.did, steps[state.nextStep].message, config);
+    const messageId = await client.sendMessage(state.convoId, text);
+    if (messageId === null) continue;
+    state.nextStep++;
+    state.lastMessageId = messageId;
+    state.lastSentAt = new Date().toISOString();
+    if (state.nextStep >= steps.length) finishSequence(state, 'completed');
+    sentCount++;
+    if (sentCount < budget) {
+      await new Promise((r) => setTimeout(r, DELAY_BETWEEN_SENDS_MS));
+    }
+  }
+  return sentCount;
+}
+
+/**
+ * Send one batch of approved dry-run previews (up to MAX_REPLIES_PER_RUN). Items whose
+ * convo got a reply since they were queued, or whose user was replied to meanwhile, are dropped.
+ * Updates `queue` in place; a rate limit stops the batch early (RateLimitError is rethrown).
+ */
+async function sendPreviewBatch(
+  env: AccountEnv,
+  client: BlueskyDmClient,
+  config: BotConfig,
+  queue: PreviewItem[],
+  events: WebhookEvent[]
+): Promise<{ sent: number; failed: number; dropped: number }> {
+  const result = { sent: 0, failed: 0, dropped: 0 };
+  const experimentStats =
+    config.experiment?.enabled && queue.some((q) => q.variantId) ? await getExperimentStats(env.BOT_CONFIG) : null;
+  const hasFollowUps = (config.followUps ?? []).length > 0;
+  const sequences = hasFollowUps ? await getSequences(env.BOT_CONFIG) : [];
+  try {
+    for (const item of [...queue]) {
+      if (result.sent + result.failed >= MAX_REPLIES_PER_RUN) break;
+      const convo = await client.getConvo(item.convoId);
+      const entry = await getLedgerEntry(env.BOT_CONFIG, item.did);
+      const repliedMeanwhile = !!entry && !entry.resetAt && (entry.repliedAt ?? '') > item.queuedAt;
+      if (!convo || !client.isLastMessageFromOther(convo) || repliedMeanwhile) {
+        removeFromPreview(queue, item.did);
+        result.dropped++;
+        continue;
+      }
+      if (result.sent > 0) await new Promise((r) => setTimeout(r, DELAY_BETWEEN_SENDS_MS));
+      const sentId = await client.sendMessage(item.convoId, item.message, config.embedPost, item.lang);
+      events.push(
+        createWebhookEvent(sentId !== null ? 'reply.sent' : 'reply.failed', {
+          did: item.did,
+          handle: item.handle,
+          convoId: item.convoId,
+          text: convo.lastMessage?.text,
+          reply: item.message,
+          kind: item.kind,
+        })
+      );
+      if (sentId === null) {
+        result.failed++;
+        continue;
+      }
+      await recordReply(env.BOT_CONFIG, {
+        did: item.did,
+        handle: item.handle,
+        repliedAt: new Date().toISOString(),
+        kind: item.kind,
+        ruleId: item.ruleId,
+        message: item.message,
+        variantId: item.variantId,
+      });
+      if (experimentStats && item.variantId) noteVariantSend(experimentStats, item.variantId);
+      if (hasFollowUps) {
+        startSequence(
+          sequences,
+          { convoId: item.convoId, did: item.did, handle: item.handle, lastMessageId: sentId },
+          new Date()
+        );
+      }
+      removeFromPreview(queue, item.did);
+      result.sent++;
+    }
+  } finally {
+    if (hasFollowUps && result.sent > 0) await saveSequences(env.BOT_CONFIG, sequences);
+    if (experimentStats && result.sent > 0) await saveExperimentStats(env.BOT_CONFIG, experimentStats);
+  }
+  return result;
+}
+
 /**
  * Cron handler: poll Bluesky DMs and reply to first-time messagers.
  * Includes rate-limit safeguards: session caching, max replies per run, delay between sends.
+ * Per-run caps shrink when Bluesky's rate-limit budget runs low, and after a 429 runs are
+ * skipped until the limit resets (longer for repeated 429s).
+ * Each run is recorded in the activity log. With a `deadline`, no new DMs are picked up after it.
+ * With a message delay, replies are queued and sent by the first run after they're due.
  */
-async function runDmReplyCycle(env: Env): Promise<void> {
+async function runDmReplyCycle(env: AccountEnv, deadline = Infinity): Promise<void> {
   const config = await getConfig(env.BOT_CONFIG);
-  if (!config.enabled) return;
+  if (!config.enabled && !config.dryRun) {
+    await deliverWebhooks(env.BOT_CONFIG, []); // Keep retrying earlier deliveries
+    return;
+  }
+
+  const run = startRun(new Date());
+  if (config.dryRun) run.dryRun = true;
+  const events: WebhookEvent[] = [];
+  const skipped: SkippedDm[] = [];
+  const rateLimits = await getRateLimitState(env.BOT_CONFIG);
+  const rateLimitsBefore = JSON.stringify(rateLimits);
+  try {
+    if (isPaused(rateLimits, new Date())) {
+      // Circuit breaker open after a 429: don't call Bluesky until the pause is over
+      run.outcome = 'rateLimited';
+      run.note = `Paused after a Bluesky rate limit until ${rateLimits.pausedUntil}`;
+    } else {
+      await runDmReplyCycleInner(env, config, run, events, skipped, deadline, rateLimits);
+      if (run.outcome !== 'rateLimited') recordHealthyRun(rateLimits);
+    }
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    await saveRun(env.BOT_CONFIG, run);
+    await recordRunMetrics(env.BOT_CONFIG, metricsFromRun(run, events), skipped, new Date(run.startedAt));
+    if (JSON.stringify(rateLimits) !== rateLimitsBefore) {
+      await saveRateLimitState(env.BOT_CONFIG, rateLimits);
+    }
+    await deliverWebhooks(env.BOT_CONFIG, events);
+  }
+}
+
+async function runDmReplyCycleInner(
+  env: AccountEnv,
+  config: BotConfig,
+  run: ActivityRun,
+  events: WebhookEvent[],
+  skipped: SkippedDm[],
+  deadline: number,
+  rateLimits: RateLimitState
+): Promise<void> {
+  // Business hours: inside hours send the usual reply (or nothing); outside, the away message
+  let awayMessage: string | null = null;
+  let backAt: string | undefined;
+  let skipNewDms = false;
+  const schedule = config.schedule;
+  if (schedule?.enabled) {
+    const now = new Date();
+    const timeZone = config.timeZone || 'UTC';
+    if (isWithinBusinessHours(schedule, timeZone, now)) {
+      skipNewDms = schedule.inHoursMode === 'none';
+      if (skipNewDms) run.note = 'Business hours: auto-replies paused';
+    } else {
+      awayMessage = schedule.awayMessage;
+      backAt = nextOpening(schedule, timeZone, now) ?? undefined;
+    }
+  }
 
   const handle = env.BSKY_HANDLE;
   const appPassword = env.BSKY_APP_PASSWORD;
@@ -137,91 +609,541 @@ async function runDmReplyCycle(env: Env): Promise<void> {
 
   if (!handle || !appPassword) {
     console.error('BSKY_HANDLE or BSKY_APP_PASSWORD not set');
+    recordError(run, 'BSKY_HANDLE or BSKY_APP_PASSWORD not set');
     return;
   }
 
   const client = new BlueskyDmClient(handle, appPassword, serviceUrl);
+  const hasFollowUps = (config.followUps ?? []).length > 0;
+  let sequences: SequenceState[] = [];
+  let sequencesBefore = '[]';
+  const dryRun = !!config.dryRun;
+  let previewQueue: PreviewItem[] = [];
+  let previewBefore = '[]';
+  let current: WebhookEventData | undefined; // DM being handled, for the rate_limited event
+  let currentDmKey = ''; // Identifies that DM in the analytics, so repeated skips count once
+  let sendQueue: ScheduledSend[] = [];
+  let sendQueueBefore = '[]';
+  let sentCount = 0;
+  let syncState: ChatSyncState | null = null;
+  let syncBefore = '';
+  const spam = config.spam?.enabled ? config.spam : null;
+  let moderationLog: ModerationEntry[] = [];
+  let moderationBefore = '[]';
+  let fingerprints: Fingerprints = {};
+  let fingerprintsBefore = '{}';
+  const experiment = config.experiment?.enabled ? config.experiment : null;
+  let experimentStats: ExperimentStats | null = null;
+  let experimentStatsBefore = '';
+  // Caps for this run, lowered when a rate-limit budget is running low
+  const startedAt = new Date();
+  const maxReplies = budgetCap(rateLimits, 'chatWrite', MAX_REPLIES_PER_RUN, startedAt);
+  const maxHistoryChecks = budgetCap(rateLimits, 'chatRead', MAX_HISTORY_CHECKS_PER_RUN, startedAt);
+  const maxProfileLookups = budgetCap(rateLimits, 'appView', MAX_PROFILE_LOOKUPS_PER_RUN, startedAt);
 
-  try {
-    const cached = await env.BOT_CONFIG.get(SESSION_KEY);
-    if (cached) {
-      try {
-        const { accessJwt, did } = JSON.parse(cached) as { accessJwt: string; did: string };
-        if (accessJwt && did) {
-          client.setCachedSession(accessJwt, did);
-        }
-      } catch {
-        /* ignore invalid cache */
-      }
-    }
+  /** Record a skipped DM in the activity log and, once per DM and reason, in the analytics. */
+  const skipDm = (did: string, reason: SkipReason, detail?: string): void => {
+    recordSkip(run, did, reason, detail);
+    skipped.push({ key: `${currentDmKey}:${reason}`, reason });
+  };
 
-    if (!client.getSessionForCache()) {
-      await client.login(appPassword);
-      const sess = client.getSessionForCache();
-      if (sess) {
-        await env.BOT_CONFIG.put(SESSION_KEY, JSON.stringify(sess), { expirationTtl: BSKY_SESSION_TTL_SEC });
-      }
+  /** Send one auto-reply and record it (ledger, follow-up sequence, activity, webhooks). */
+  const sendReply = async (item: ScheduledSend): Promise<boolean> => {
+    if (sentCount > 0) await new Promise((r) => setTimeout(r, DELAY_BETWEEN_SENDS_MS));
+    const sentId = await client.sendMessage(item.convoId, item.message, config.embedPost, item.lang);
+    const eventData = { did: item.did, handle: item.handle, convoId: item.convoId, text: item.inboundText };
+    const eventType = sentId !== null ? 'reply.sent' : 'reply.failed';
+    events.push(createWebhookEvent(eventType, { ...eventData, reply: item.message, kind: item.kind }));
+    if (sentId === null) {
+      recordError(run, `Failed to send auto-reply to ${item.did}`);
+      return false;
+    }
+    sentCount++;
+    await recordReply(env.BOT_CONFIG, {
+      did: item.did,
+      handle: item.handle,
+      repliedAt: new Date().toISOString(),
+      kind: item.kind,
+      ruleId: item.ruleId,
+      message: item.message,
+      variantId: item.variantId,
+    });
+    if (experimentStats && item.variantId) noteVariantSend(experimentStats, item.variantId);
+    run.replies.push({ did: item.did, handle: item.handle, kind: item.kind, ruleId: item.ruleId, lang: item.lang });
+    if (hasFollowUps) {
+      startSequence(
+        sequences,
+        { convoId: item.convoId, did: item.did, handle: item.handle, lastMessageId: sentId },
+        new Date()
+      );
     }
+    return true;
+  };
+
+  try {
+    await ensureSession(env.BOT_CONFIG, client, appPassword);
 
     const welcomeMsg = config.welcomeMessage?.trim() || DEFAULT_WELCOME;
+    const welcomeMessages = config.welcomeMessages ?? {};
     const delay = Math.min(MAX_DELAY_SECONDS, Math.max(0, config.messageDelaySeconds ?? 0));
+    const rules = await getRules(env.BOT_CONFIG);
+    const reengagement = config.reengagement?.enabled ? config.reengagement : null;
+    const reengageAfterMs = reengagement ? reengagementAfterMs(reengagement) : Infinity;
+    const accessLists = await getAccessLists(env.BOT_CONFIG);
+    if (hasFollowUps) {
+      sequences = await getSequences(env.BOT_CONFIG);
+      sequencesBefore = JSON.stringify(sequences);
+    }
+    if (dryRun) {
+      previewQueue = await getPreviewQueue(env.BOT_CONFIG);
+      previewBefore = JSON.stringify(previewQueue);
+    } else {
+      sendQueue = await getSendQueue(env.BOT_CONFIG);
+      sendQueueBefore = JSON.stringify(sendQueue);
+    }
+    if (spam) {
+      moderationLog = await getModerationLog(env.BOT_CONFIG);
+      moderationBefore = JSON.stringify(moderationLog);
+      fingerprints = await getFingerprints(env.BOT_CONFIG);
+      fingerprintsBefore = JSON.stringify(fingerprints);
+    }
+    if (experiment) {
+      experimentStats = await getExperimentStats(env.BOT_CONFIG);
+      experimentStatsBefore = JSON.stringify(experimentStats);
+    }
+
+    // Replies whose message delay has passed (queued by earlier runs)
+    for (const item of dueSends(sendQueue, Date.now())) {
+      if (sentCount >= maxReplies || Date.now() >= deadline) break;
+      current = { did: item.did, handle: item.handle, convoId: item.convoId, text: item.inboundText };
+      currentDmKey = `${item.convoId}:${item.queuedAt}`; // Queued replies don't keep the DM's message ID
+      const previous = item.previousRepliedAt ? { did: item.did, repliedAt: item.previousRepliedAt } : null;
+      if (await repliedSince(env.BOT_CONFIG, item.did, previous)) {
+        skipDm(item.did, 'repliedByOtherRun');
+      } else if (!(await sendReply(item))) {
+        // A rate limit throws above and leaves the item queued; other failures are retried a few times
+        noteFailedSend(sendQueue, item.convoId);
+        continue;
+      }
+      removeScheduledSend(sendQueue, item.convoId);
+    }
 
-    let cursor: string | undefined;
     let repliedCount = 0;
-    let historyChecks = 0;
+    let queueFull = false; // Preview or send queue full: stop for this run
+
+    const atRunCap = (): boolean =>
+      queueFull ||
+      repliedCount >= maxReplies ||
+      (delay === 0 && sentCount >= maxReplies) ||
+      run.historyChecks >= maxHistoryChecks ||
+      Date.now() >= deadline;
+
+    const requestPolicy = config.requestPolicy ?? defaultRequestPolicy();
+    /** Accept, mute or leave a convo that's still a DM request. Nothing changes in dry run. */
+    const applyRequestAction = async (convo: Convo, action: RequestAction): Promise<void> => {
+      if (convo.status !== 'request' || dryRun) return;
+      if (action === 'accept') await client.acceptConvo(convo.id);
+      else if (action === 'mute' && !convo.muted) await client.muteConvo(convo.id);
+      else if (action === 'leave') await client.leaveConvo(convo.id);
+    };
+
+    /**
+     * The sender's language if there's a welcome message for it: detected from the DM,
+     * or (for DMs too short to tell) from the languages on their recent posts.
+     */
+    const welcomeLanguage = async (text: string | undefined, did: string): Promise<WelcomeLanguage | undefined> => {
+      if (Object.keys(welcomeMessages).length === 0) return undefined;
+      let lang = detectLanguage(text ?? '');
+      if (!lang && run.profileLookups < maxProfileLookups) {
+        run.profileLookups++;
+        lang = languageFromTags(await client.getRecentPostLangs(did));
+      }
+      return lang && welcomeMessages[lang] ? lang : undefined;
+    };
+
+    /**
+     * Score the convo's last message; if it's spam, mute / leave / report as configured and log it.
+     * Returns true if the message was flagged (now or by an earlier run) and gets no reply.
+     */
+    const checkForSpam = async (convo: Convo, did: string): Promise<boolean> => {
+      if (!spam) return false;
+      const message = convo.lastMessage;
+      if (!message) return false;
+      const logged = moderationLog.find((e) => e.convoId === convo.id && e.messageId === message.id);
+      if (logged) return !logged.undoneAt; // Marked "not spam" by the admin: reply as usual
 
-    do {
-      const { convos, cursor: nextCursor } = await client.listConvos(50, cursor);
-      cursor = nextCursor;
+      const now = new Date();
+      const hash = await textFingerprint(message.text);
+      const senders = hash ? noteFingerprint(fingerprints, hash, did, now) : 1;
+      let facts = spam.newAccountDays > 0 ? await getCachedAudienceFacts(env.BOT_CONFIG, did) : null;
+      if (spam.newAccountDays > 0 && !facts && run.profileLookups < maxProfileLookups) {
+        run.profileLookups++;
+        facts = await lookupAudienceFacts(env.BOT_CONFIG, client, did);
+      }
+      const { score, signals } = scoreMessage(spam, {
+        text: message.text,
+        senders,
+        accountAgeDays: ageInDays(facts?.createdAt, now),
+      });
+      if (score < spam.threshold) return false;
+
+      const entry: ModerationEntry = {
+        id: crypto.randomUUID(),
+        convoId: convo.id,
+        did,
+        handle: client.getOtherParticipant(convo)?.handle,
+        messageId: message.id,
+        text: truncateForLog(message.text),
+        score,
+        signals,
+        flaggedAt: now.toISOString(),
+      };
+      if (dryRun) {
+        entry.dryRun = true;
+      } else {
+        if (spam.report) entry.reported = await client.reportSpam(did, `Auto-flagged DM: ${signals.join('; ')}`);
+        if (spam.action === 'leave') entry.left = await client.leaveConvo(convo.id);
+        else if (spam.action === 'mute' && !convo.muted) entry.muted = await client.muteConvo(convo.id);
+      }
+      moderationLog.unshift(entry);
+      skipDm(did, 'spam', signals.join('; '));
+      return true;
+    };
+
+    /**
+     * Decide on the auto-reply for one convo and send, queue or preview it.
+     * `isNew` (the chat log saw the convo start with their message) skips the history check.
+     * Returns 'retry' when the convo should be looked at again next run.
+     */
+    const handleConvo = async (convo: Convo, isNew = false): Promise<'done' | 'retry'> => {
+      run.convosScanned++;
+
+      const otherDid = client.getOtherParticipantDid(convo);
+      if (!otherDid) return 'done';
+      if (!convo.id) return 'done';
+      if (!client.isLastMessageFromOther(convo)) return 'done';
+      current = {
+        did: otherDid,
+        handle: client.getOtherParticipant(convo)?.handle,
+        convoId: convo.id,
+        text: convo.lastMessage?.text,
+      };
+      currentDmKey = `${convo.id}:${convo.lastMessage?.id ?? ''}`;
+
+      const access = checkAccessLists(accessLists, otherDid);
+      if (access === 'blocked') {
+        await applyRequestAction(convo, requestPolicy.filtered);
+        skipDm(otherDid, 'blocked');
+        return 'done';
+      }
+      if (dryRun && previewQueue.some((q) => q.did === otherDid)) {
+        skipDm(otherDid, 'queuedForPreview');
+        return 'done';
+      }
+      if (sendQueue.some((q) => q.convoId === convo.id)) {
+        skipDm(otherDid, 'scheduled');
+        return 'done';
+      }
+
+      // Already replied: skip, unless re-engagement is on. The silence before their new DM can't be longer
+      // than the time since our reply, so skip when that's too short; otherwise the history check decides.
+      const ledgerEntry = await getLedgerEntry(env.BOT_CONFIG, otherDid);
+      // A/B test: an answer to the welcome message within the response window counts for its variant
+      // (timed from their first message after it; if the latest is within the window, so is the first)
+      if (
+        experiment &&
+        experimentStats &&
+        ledgerEntry?.variantId &&
+        ledgerEntry.repliedAt &&
+        !ledgerEntry.respondedAt &&
+        !ledgerEntry.resetAt &&
+        responseDelay(ledgerEntry.repliedAt, convo.lastMessage?.sentAt, experiment.responseWindowHours) !== null
+      ) {
+        run.historyChecks++;
+        const sentAt = await client.getFirstReplyAt(convo.id, ledgerEntry.repliedAt);
+        const delayMs = sentAt ? responseDelay(ledgerEntry.repliedAt, sentAt, experiment.responseWindowHours) : null;
+        if (sentAt && delayMs !== null) {
+          await recordResponse(env.BOT_CONFIG, ledgerEntry, sentAt);
+          noteVariantResponse(experimentStats, ledgerEntry.variantId, delayMs);
+        }
+      }
+      if (ledgerEntry && !ledgerEntry.resetAt) {
+        const sinceReply = Date.parse(convo.lastMessage?.sentAt ?? '') - Date.parse(ledgerEntry.repliedAt ?? '');
+        // NaN (unknown times) falls through to the history check
+        if (!reengagement || sinceReply < reengageAfterMs) {
+          skipDm(otherDid, 'alreadyReplied');
+          return 'done';
+        }
+      }
 
-      for (const convo of convos) {
-        if (repliedCount >= MAX_REPLIES_PER_RUN) break;
-        if (historyChecks >= MAX_HISTORY_CHECKS_PER_RUN) break;
+      if (access !== 'allowed' && hasAudienceFilters(config.audience)) {
+        let facts = await getCachedAudienceFacts(env.BOT_CONFIG, otherDid);
+        if (!facts) {
+          if (run.profileLookups >= maxProfileLookups) {
+            skipDm(otherDid, 'lookupLimit');
+            return 'retry'; // Check again next run
+          }
+          run.profileLookups++;
+          facts = await lookupAudienceFacts(env.BOT_CONFIG, client, otherDid);
+          if (!facts) {
+            skipDm(otherDid, 'profileUnavailable');
+            return 'done';
+          }
+        }
+        const filtered = checkAudience(config.audience, facts, new Date());
+        if (filtered) {
+          await applyRequestAction(convo, requestPolicy.filtered);
+          skipDm(otherDid, 'filtered', filtered);
+          return 'done';
+        }
+      }
 
-        const otherDid = client.getOtherParticipantDid(convo);
-        if (!otherDid) continue;
-        if (!convo.id) continue;
-        if (!client.isLastMessageFromOther(convo)) continue;
+      if (convo.status === 'request' && requestPolicy.passing !== 'accept') {
+        await applyRequestAction(convo, requestPolicy.passing);
+        skipDm(otherDid, 'messageRequest', REQUEST_SKIP_DETAILS[requestPolicy.passing]);
+        return 'done';
+      }
 
-        const repliedKey = `${REPLIED_PREFIX}${otherDid}`;
-        const alreadyReplied = await env.BOT_CONFIG.get(repliedKey);
-        if (alreadyReplied) continue; // Only ever reply once per account
+      // Skip existing convos — only auto-reply when they message for the first time, or
+      // (with re-engagement on) after a long enough silence before their new DM.
+      // Users reset from the admin ledger already have our old reply in the convo, and convos the
+      // chat log saw start with their message have no history, so skip the check for those.
+      let isWelcomeBack = false;
+      if (!ledgerEntry?.resetAt && !isNew) {
+        run.historyChecks++;
+        const history = await client.getConvoHistory(convo.id);
+        if (history.weHaveSent) {
+          if (!reengagement || history.silenceMs === null || history.silenceMs < reengageAfterMs) {
+            skipDm(otherDid, 'hasHistory');
+            return 'done';
+          }
+          isWelcomeBack = true;
+        }
+      }
+      // Only DMs that would get an auto-reply are scored, so ongoing conversations are left alone
+      if (access !== 'allowed' && (await checkForSpam(convo, otherDid))) return 'done';
+      if (!isWelcomeBack) events.push(createWebhookEvent('dm.received', current));
 
-        // Skip existing convos — only auto-reply when they message for the first time
-        historyChecks++;
-        const weHaveHistory = await client.hasWeEverSentInConvo(convo.id);
-        if (weHaveHistory) continue;
+      // Re-check before send (guards against race if multiple runs overlap)
+      if (await repliedSince(env.BOT_CONFIG, otherDid, ledgerEntry)) {
+        skipDm(otherDid, 'repliedByOtherRun');
+        return 'done';
+      }
+      await applyRequestAction(convo, 'accept'); // Request from a sender who passes the filters
 
-        if (delay > 0) {
-          await new Promise((r) => setTimeout(r, delay * 1000));
+      // Away message outside business hours; then the welcome back message (if set) for returning users;
+      // otherwise first matching rule, then the welcome message in the sender's language (or the default)
+      const welcomeBackMsg = isWelcomeBack && reengagement?.message ? reengagement.message : null;
+      const rule = awayMessage || welcomeBackMsg ? null : matchRule(rules, convo.lastMessage?.text);
+      const kind: ReplyKind = awayMessage ? 'away' : isWelcomeBack ? 'welcomeBack' : rule ? 'rule' : 'welcome';
+      const lang = kind === 'welcome' ? await welcomeLanguage(convo.lastMessage?.text, otherDid) : undefined;
+      // The A/B test covers senders who'd get the default welcome message (no translation)
+      const variant = kind === 'welcome' && !lang && experiment ? assignVariant(experiment, otherDid) : null;
+      const template =
+        awayMessage ?? welcomeBackMsg ?? (rule ? rule.reply : (lang && welcomeMessages[lang]) || variant?.message || welcomeMsg);
+      const replyText = await renderReply(client, convo, otherDid, template, config, backAt, lang);
+      if (dryRun) {
+        if (isPreviewQueueFull(previewQueue)) {
+          queueFull = true;
+          return 'retry';
+        }
+        const participantHandle = client.getOtherParticipant(convo)?.handle;
+        queuePreview(previewQueue, {
+          convoId: convo.id,
+          did: otherDid,
+          handle: participantHandle,
+          kind,
+          ruleId: rule?.id,
+          message: replyText,
+          lang,
+          variantId: variant?.id,
+          queuedAt: new Date().toISOString(),
+        });
+        run.replies.push({ did: otherDid, handle: participantHandle, kind, ruleId: rule?.id, lang });
+        repliedCount++;
+        return 'done';
+      }
+      const now = new Date();
+      const item: ScheduledSend = {
+        convoId: convo.id,
+        did: otherDid,
+        handle: current.handle,
+        kind,
+        ruleId: rule?.id,
+        message: replyText,
+        lang,
+        variantId: variant?.id,
+        inboundText: convo.lastMessage?.text,
+        queuedAt: now.toISOString(),
+        dueAt: new Date(now.getTime() + delay * 1000).toISOString(),
+        previousRepliedAt: ledgerEntry?.repliedAt,
+      };
+      // With a message delay, queue the reply for a later run instead of waiting here
+      if (delay > 0) {
+        if (!scheduleSend(sendQueue, item)) {
+          queueFull = true;
+          return 'retry';
         }
+        (run.scheduled ??= []).push({ did: otherDid, handle: item.handle, kind, ruleId: rule?.id, lang });
+        repliedCount++;
+        return 'done';
+      }
+      if (!(await sendReply(item))) return 'retry'; // Still unanswered; try again next run
+      repliedCount++;
+      return 'done';
+    };
+
+    if (!skipNewDms) {
+      syncState = await getChatSyncState(env.BOT_CONFIG);
+      syncBefore = JSON.stringify(syncState);
 
-        // Re-check before send (guards against race if multiple runs overlap)
-        if (await env.BOT_CONFIG.get(repliedKey)) continue;
+      // Convos with new messages since the last run, from the chat event log. This also runs while
+      // a full scan is in progress, so new DMs are answered before the rest of the backfill.
+      if (syncState.logCursor) {
+        const ourDid = client.getOurDid() ?? '';
+        const changes: LogConvoChange[] = syncState.pending.map((convoId) => ({ convoId, isNew: false }));
+        let logCursor: string | undefined = syncState.logCursor;
+        let logFailed = false;
+        for (let page = 0; page < MAX_LOG_PAGES_PER_RUN; page++) {
+          const log = await client.getLog(logCursor);
+          if (!log) {
+            logFailed = true;
+            break;
+          }
+          for (const change of convosWithNewMessages(log.logs, ourDid)) {
+            if (!changes.some((c) => c.convoId === change.convoId)) changes.push(change);
+          }
+          if (log.logs.length === 0 || !log.cursor) break;
+          logCursor = log.cursor;
+        }
+        if (logFailed && syncState.scan) {
+          // Keep the scan's place and start the log over from where it is now
+          console.warn('Chat log unavailable during the full scan; taking a new log cursor');
+          delete syncState.logCursor;
+        } else if (logFailed) {
+          console.warn('Chat log unavailable; falling back to a full scan');
+          startFullScan(syncState, new Date());
+        } else {
+          // Recorded before handling, so convos a rate limit interrupts are picked up next run
+          syncState.logCursor = logCursor;
+          syncState.pending = changes.map((c) => c.convoId);
+          for (const change of changes) {
+            if (atRunCap()) break;
+            const convo = await client.getConvo(change.convoId);
+            if (convo && (await handleConvo(convo, change.isNew)) === 'retry') continue;
+            syncState.pending = syncState.pending.filter((id) => id !== change.convoId);
+          }
+        }
+      }
 
-        const sent = await client.sendMessage(convo.id, welcomeMsg);
-        if (sent) {
-          await env.BOT_CONFIG.put(repliedKey, '1', { expirationTtl: 60 * 60 * 24 * 365 });
-          repliedCount++;
-          if (repliedCount < MAX_REPLIES_PER_RUN) {
-            await new Promise((r) => setTimeout(r, DELAY_BETWEEN_SENDS_MS));
+      // First run, resync or log failure: go through every convo, resuming where the last run stopped
+      if (needsFullScan(syncState)) {
+        const scan = syncState.scan ?? startFullScan(syncState, new Date());
+        if (!syncState.logCursor) {
+          // Where the log is now; later runs read the events after this alongside the scan
+          syncState.logCursor = (await client.getLog())?.cursor;
+        }
+        while (!atRunCap()) {
+          const { convos, cursor: nextCursor } = await client.listConvos(50, scan.listCursor);
+          for (let i = scan.offset; i < convos.length && !atRunCap(); i++) {
+            if ((await handleConvo(convos[i])) === 'retry' && !syncState.pending.includes(convos[i].id)) {
+              syncState.pending.push(convos[i].id);
+            }
+            scan.offset = i + 1;
           }
+          if (scan.offset < convos.length) break; // Stopped mid-page; resume here next run
+          if (!nextCursor) {
+            delete syncState.scan;
+            syncState.lastFullScanAt = new Date().toISOString();
+            break;
+          }
+          scan.listCursor = nextCursor;
+          scan.offset = 0;
         }
       }
-    } while (cursor && repliedCount < MAX_REPLIES_PER_RUN);
+    }
+
+    if (dryRun && repliedCount > 0) {
+      console.log(`Dry run: queued ${repliedCount} reply preview(s)`);
+    } else if (sentCount > 0) {
+      console.log(`Replied to ${sentCount} DM(s)`);
+    }
 
-    if (repliedCount > 0) {
-      console.log(`Replied to ${repliedCount} new DM(s)`);
+    if (hasFollowUps && !dryRun && sentCount < maxReplies && Date.now() < deadline) {
+      const followUpCount = await processFollowUps(sequences, client, config, maxReplies - sentCount);
+      run.followUpsSent = followUpCount;
+      if (followUpCount > 0) {
+        console.log(`Sent ${followUpCount} follow-up(s)`);
+      }
     }
   } catch (err) {
     if (err instanceof RateLimitError) {
-      console.warn('Bluesky rate limit hit; will retry on next run');
+      recordRateLimited(rateLimits, new Date(), err.endpoint, err.resetAt);
+      console.warn(`Bluesky rate limit hit; pausing until ${rateLimits.pausedUntil}`);
+      run.outcome = 'rateLimited';
+      run.errors.push(`Bluesky rate limit hit${err.endpoint ? ` (${err.endpoint})` : ''}`);
+      events.push(createWebhookEvent('rate_limited', current ?? {}));
       return;
     }
     console.error('DM reply cycle error:', err);
-    await env.BOT_CONFIG.delete(SESSION_KEY);
+    recordError(run, err instanceof Error ? err.message : String(err));
     throw err;
+  } finally {
+    updateBudgets(rateLimits, client.getObservedBudgets(), new Date());
+    // Persist sequence progress even if a rate limit or error interrupted the run
+    if (hasFollowUps && JSON.stringify(sequences) !== sequencesBefore) {
+      await saveSequences(env.BOT_CONFIG, sequences);
+    }
+    if (dryRun && JSON.stringify(previewQueue) !== previewBefore) {
+      await savePreviewQueue(env.BOT_CONFIG, previewQueue);
+    }
+    if (JSON.stringify(sendQueue) !== sendQueueBefore) {
+      await saveSendQueue(env.BOT_CONFIG, sendQueue);
+    }
+    if (syncState && JSON.stringify(syncState) !== syncBefore) {
+      await saveChatSyncState(env.BOT_CONFIG, syncState);
+    }
+    if (spam && JSON.stringify(moderationLog) !== moderationBefore) {
+      await saveModerationLog(env.BOT_CONFIG, moderationLog);
+    }
+    if (spam && JSON.stringify(fingerprints) !== fingerprintsBefore) {
+      await saveFingerprints(env.BOT_CONFIG, fingerprints, new Date());
+    }
+    if (experimentStats && JSON.stringify(experimentStats) !== experimentStatsBefore) {
+      await saveExperimentStats(env.BOT_CONFIG, experimentStats);
+    }
+  }
+}
+
+/**
+ * Run the reply cycle for every account within one shared time budget.
+ * The starting account rotates each minute so a busy account can't starve the ones after it.
+ * One account failing doesn't stop the others; the first error is rethrown at the end.
+ */
+async function runAllAccounts(env: Env): Promise<void> {
+  const accounts = await getAccounts(env.BOT_CONFIG);
+  const ids = listAccountSummaries(env, accounts).map((a) => a.id);
+  if (ids.length <= 1) {
+    // Single account: no shared budget needed (also logs missing credentials)
+    const accountEnv = ids.length ? await getAccountEnv(env, ids[0], accounts) : null;
+    await runDmReplyCycle(accountEnv ?? env);
+    return;
+  }
+  const deadline = Date.now() + CRON_TIME_BUDGET_MS;
+  const start = Math.floor(Date.now() / 60_000) % ids.length;
+  let firstError: unknown;
+  for (let i = 0; i < ids.length; i++) {
+    if (Date.now() >= deadline) break;
+    const id = ids[(start + i) % ids.length];
+    try {
+      const accountEnv = await getAccountEnv(env, id, accounts);
+      if (accountEnv) await runDmReplyCycle(accountEnv, deadline);
+    } catch (err) {
+      console.error(`Account ${id}:`, err);
+      firstError ??= err;
+    }
   }
+  if (firstError) throw firstError;
 }
 
 export default {
@@ -242,7 +1164,7 @@ export default {
   },
 
   async scheduled(_event: ScheduledEvent, env: Env, _ctx: ExecutionContext): Promise<void> {
-    await runDmReplyCycle(env);
+    await runAllAccounts(env);
   },
 };
 
@@ -253,10 +1175,11 @@ async function handleAdmin(
   baseUrl: string
 ): Promise<Response> {
   const path = url.pathname.slice('/admin'.length) || '/';
-  const kv = env.BOT_CONFIG;
-  const config = await getConfig(kv);
+  // Admin password and setup state live in the default account's config
+  const rootKv = env.BOT_CONFIG;
+  const rootConfig = await getConfig(rootKv);
 
-  if (!config.setupComplete && path !== '/setup' && !path.startsWith('/api/')) {
+  if (!rootConfig.setupComplete && path !== '/setup' && !path.startsWith('/api/')) {
     return new Response(getSetupWizardHtml(baseUrl), {
       headers: { 'Content-Type': 'text/html; charset=utf-8' },
     });
@@ -274,21 +1197,23 @@ async function handleAdmin(
       return jsonResponse({ error: 'Password must be at least 8 characters' }, 400);
     }
     const welcomeMessage = (body.welcomeMessage || DEFAULT_WELCOME).trim() || DEFAULT_WELCOME;
+    const templateError = validateTemplate(welcomeMessage);
+    if (templateError) return jsonResponse({ error: templateError }, 400);
     const messageDelaySeconds = clampDelay(body.messageDelaySeconds ?? 0);
     const hash = await hashPassword(password);
     const newConfig: BotConfig = {
-      ...config,
+      ...rootConfig,
       welcomeMessage,
       enabled: body.enabled ?? false,
       messageDelaySeconds,
       adminPasswordHash: hash,
       setupComplete: true,
     };
-    await saveConfig(kv, newConfig);
+    await saveConfig(rootKv, newConfig, 'Setup');
     return jsonResponse({ success: true });
   }
 
-  if (!config.setupComplete) {
+  if (!rootConfig.setupComplete) {
     return new Response(getSetupWizardHtml(baseUrl), {
       headers: { 'Content-Type': 'text/html; charset=utf-8' },
     });
@@ -308,7 +1233,7 @@ async function handleAdmin(
   if (path === '/login' && request.method === 'POST') {
     const body = (await request.json()) as { password?: string };
     const password = body.password || '';
-    const hash = config.adminPasswordHash;
+    const hash = rootConfig.adminPasswordHash;
     if (!hash) {
       return jsonResponse({ error: 'No admin password configured' }, 401);
     }
@@ -336,6 +1261,107 @@ async function handleAdmin(
     });
   }
 
+  if (path === '/api/accounts' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const accounts = await getAccounts(rootKv);
+    return jsonResponse({
+      accounts: listAccountSummaries(env, accounts),
+      current: selectAccountId(request, env, accounts),
+      canAdd: !!env.ACCOUNTS_ENCRYPTION_KEY && canAddAccount(accounts),
+    });
+  }
+
+  if (path === '/api/accounts/select' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { id?: string };
+    const accounts = await getAccounts(rootKv);
+    if (!body.id || !listAccountSummaries(env, accounts).some((a) => a.id === body.id)) {
+      return jsonResponse({ error: 'Unknown account' }, 404);
+    }
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json', 'Set-Cookie': accountCookie(body.id, baseUrl) },
+    });
+  }
+
+  if (path === '/api/accounts/add' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const encryptionKey = env.ACCOUNTS_ENCRYPTION_KEY;
+    if (!encryptionKey) {
+      return jsonResponse({ error: 'Set ACCOUNTS_ENCRYPTION_KEY to add accounts.' }, 503);
+    }
+    const body = (await request.json()) as { handle?: string; appPassword?: string; serviceUrl?: string };
+    const handle = (body.handle || '').trim().replace(/^@/, '').toLowerCase();
+    const appPassword = (body.appPassword || '').trim();
+    const serviceUrl = (body.serviceUrl || '').trim().replace(/\/+$/, '') || undefined;
+    if (!handle || !appPassword) return jsonResponse({ error: 'Handle and app password are required' }, 400);
+    if (serviceUrl && !/^https:\/\//.test(serviceUrl)) {
+      return jsonResponse({ error: 'Service URL must start with https://' }, 400);
+    }
+    const accounts = await getAccounts(rootKv);
+    if (!canAddAccount(accounts)) return jsonResponse({ error: 'Account limit reached' }, 400);
+    // Log in once to check the app password and learn the account's DID
+    const client = new BlueskyDmClient(handle, appPassword, serviceUrl || 'https://bsky.social');
+    try {
+      await client.login(appPassword);
+    } catch (err) {
+      return jsonResponse({ error: (err as Error).message }, 400);
+    }
+    const did = client.getSessionForCache()?.did;
+    if (!did) return jsonResponse({ error: 'Bluesky login returned no DID' }, 502);
+    if (accounts.some((a) => a.did === did) || handle === env.BSKY_HANDLE?.toLowerCase()) {
+      return jsonResponse({ error: 'That account is already added' }, 409);
+    }
+    const account: BotAccount = {
+      id: crypto.randomUUID(),
+      handle,
+      did,
+      serviceUrl,
+      encryptedPassword: await encryptPassword(encryptionKey, appPassword),
+      addedAt: new Date().toISOString(),
+    };
+    await saveAccounts(rootKv, [...accounts, account]);
+    return jsonResponse({ success: true, account: { id: account.id, handle, isDefault: false } });
+  }
+
+  if (path === '/api/accounts/remove' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { id?: string };
+    const accounts = await getAccounts(rootKv);
+    if (!body.id || !accounts.some((a) => a.id === body.id)) {
+      return jsonResponse({ error: 'Unknown account (the default account is set in env vars)' }, 404);
+    }
+    // Delete the account's data in batches; the account itself goes once its data is gone
+    const result = await deleteAccountData(rootKv, body.id);
+    if (result.done) await saveAccounts(rootKv, accounts.filter((a) => a.id !== body.id));
+    return jsonResponse({ success: true, ...result });
+  }
+
+  // Everything below is per account: settings, rules, ledger, logs, …
+  const accounts = await getAccounts(rootKv);
+  let accountEnv: AccountEnv | null;
+  try {
+    accountEnv = await getAccountEnv(env, selectAccountId(request, env, accounts), accounts);
+  } catch (err) {
+    return jsonResponse({ error: `Could not load the account: ${(err as Error).message}` }, 500);
+  }
+  return handleAccountAdmin(request, accountEnv ?? env, url, baseUrl, path, isAuthenticated);
+}
+
+/**
+ * Admin routes for the selected account. `env` is scoped to that account
+ * (its credentials and KV prefix), so these handlers work the same for every account.
+ */
+async function handleAccountAdmin(
+  request: Request,
+  env: AccountEnv,
+  url: URL,
+  baseUrl: string,
+  path: string,
+  isAuthenticated: boolean
+): Promise<Response> {
+  const kv = env.BOT_CONFIG;
+  const config = await getConfig(kv);
+
   if (path === '/api/config') {
     if (!isAuthenticated) {
       return jsonResponse({ error: 'Unauthorized' }, 401);
@@ -343,62 +1369,644 @@ async function handleAdmin(
     if (request.method === 'GET') {
       return jsonResponse({
         welcomeMessage: config.welcomeMessage,
+        welcomeMessages: config.welcomeMessages ?? {},
+        experiment: config.experiment ?? defaultExperiment(),
         enabled: config.enabled,
         messageDelaySeconds: config.messageDelaySeconds ?? 0,
+        timeZone: config.timeZone ?? '',
+        schedule: config.schedule ?? defaultSchedule(),
+        scheduleStatus: getScheduleStatus(config),
+        followUps: config.followUps ?? [],
+        embedPostLink: config.embedPost?.link ?? '',
+        audience: config.audience ?? defaultAudienceFilters(),
+        requestPolicy: config.requestPolicy ?? defaultRequestPolicy(),
+        spam: config.spam ?? defaultSpamSettings(),
+        reengagement: config.reengagement ?? defaultReengagement(),
       });
     }
     if (request.method === 'POST') {
       const body = (await request.json()) as {
         welcomeMessage?: string;
+        welcomeMessages?: unknown;
+        experiment?: unknown;
+        /** Shown in the version history */
+        changeNote?: string;
         enabled?: boolean;
         messageDelaySeconds?: number;
+        timeZone?: string;
+        schedule?: unknown;
+        followUps?: unknown;
+        embedPostLink?: string;
+        audience?: unknown;
+        requestPolicy?: unknown;
+        spam?: unknown;
+        reengagement?: unknown;
       };
+      const welcomeMessage = (body.welcomeMessage ?? config.welcomeMessage).trim() || DEFAULT_WELCOME;
+      const templateError = validateTemplate(welcomeMessage);
+      if (templateError) return jsonResponse({ error: templateError }, 400);
+      let welcomeMessages = config.welcomeMessages;
+      if (body.welcomeMessages !== undefined) {
+        const result = validateWelcomeMessages(body.welcomeMessages);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        welcomeMessages = result.messages;
+      }
+      let experiment = config.experiment;
+      if (body.experiment !== undefined) {
+        const result = validateExperiment(body.experiment);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        experiment = result.settings;
+      }
+      const timeZone = body.timeZone !== undefined ? body.timeZone.trim() || undefined : config.timeZone;
+      if (timeZone && !isValidTimeZone(timeZone)) {
+        return jsonResponse({ error: `Unknown time zone: ${timeZone}` }, 400);
+      }
+      let schedule = config.schedule;
+      if (body.schedule !== undefined) {
+        const result = validateSchedule(body.schedule);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        schedule = result.schedule;
+      }
+      let followUps = config.followUps;
+      if (body.followUps !== undefined) {
+        const result = validateFollowUps(body.followUps);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        followUps = result.steps;
+      }
+      let audience = config.audience;
+      if (body.audience !== undefined) {
+        const result = validateAudienceFilters(body.audience);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        audience = result.filters;
+      }
+      let requestPolicy = config.requestPolicy;
+      if (body.requestPolicy !== undefined) {
+        const result = validateRequestPolicy(body.requestPolicy);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        requestPolicy = result.policy;
+      }
+      let spam = config.spam;
+      if (body.spam !== undefined) {
+        const result = validateSpamSettings(body.spam);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        spam = result.settings;
+      }
+      let reengagement = config.reengagement;
+      if (body.reengagement !== undefined) {
+        const result = validateReengagement(body.reengagement);
+        if ('error' in result) return jsonResponse({ error: result.error }, 400);
+        reengagement = result.settings;
+      }
+      let embedPost = config.embedPost;
+      if (body.embedPostLink !== undefined) {
+        const link = body.embedPostLink.trim();
+        if (!link) {
+          embedPost = undefined;
+        } else if (link !== config.embedPost?.link) {
+          let ref: StrongRef | null;
+          try {
+            ref = await (await getAdminClient(env)).resolvePost(link);
+          } catch (err) {
+            return jsonResponse({ error: `Could not look up the post: ${(err as Error).message}` }, 502);
+          }
+          if (!ref) {
+            return jsonResponse({ error: 'Post not found. Use a bsky.app post link or an at:// post URI.' }, 400);
+          }
+          embedPost = { link, ...ref };
+        }
+      }
       const newConfig: BotConfig = {
         ...config,
-        welcomeMessage: (body.welcomeMessage ?? config.welcomeMessage).trim() || DEFAULT_WELCOME,
+        welcomeMessage,
+        welcomeMessages,
+        experiment,
         enabled: body.enabled ?? config.enabled,
         messageDelaySeconds: body.messageDelaySeconds !== undefined ? clampDelay(body.messageDelaySeconds) : (config.messageDelaySeconds ?? 0),
+        timeZone,
+        schedule,
+        followUps,
+        embedPost,
+        audience,
+        requestPolicy,
+        spam,
+        reengagement,
       };
-      await saveConfig(kv, newConfig);
-      return jsonResponse({ success: true });
+      await saveConfig(kv, newConfig, typeof body.changeNote === 'string' ? body.changeNote : undefined);
+      // Returned so the admin panel picks up the IDs given to new A/B test variants
+      return jsonResponse({
+        success: true,
+        scheduleStatus: getScheduleStatus(newConfig),
+        experiment: newConfig.experiment ?? defaultExperiment(),
+      });
     }
     return new Response(null, { status: 405 });
   }
 
-  if (path === '/api/toggle' && request.method === 'POST') {
+  if (path === '/api/rules') {
     if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
-    const body = (await request.json()) as { enabled?: boolean };
-    const newConfig: BotConfig = { ...config, enabled: body.enabled ?? !config.enabled };
-    await saveConfig(kv, newConfig);
-    return jsonResponse({ success: true, enabled: newConfig.enabled });
+    if (request.method === 'GET') {
+      return jsonResponse({ rules: await getRules(kv) });
+    }
+    if (request.method === 'POST') {
+      const body = (await request.json()) as { rules?: unknown };
+      const result = validateRules(body.rules);
+      if ('error' in result) return jsonResponse({ error: result.error }, 400);
+      await saveConfig(kv, config, 'Reply rules changed', result.rules);
+      return jsonResponse({ success: true, rules: result.rules });
+    }
+    return new Response(null, { status: 405 });
   }
 
-  if ((path === '/' || path === '') && request.method === 'GET') {
-    if (!isAuthenticated) {
-      return new Response(getAdminLoginHtml(baseUrl), {
-        headers: { 'Content-Type': 'text/html; charset=utf-8' },
-      });
+  if (path === '/api/webhooks') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    if (request.method === 'GET') {
+      return jsonResponse({ webhooks: await getWebhooks(kv) });
     }
-    return new Response(getAdminPageHtml(baseUrl), {
-      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    if (request.method === 'POST') {
+      const body = (await request.json()) as { webhooks?: unknown };
+      const result = validateWebhooks(body.webhooks);
+      if ('error' in result) return jsonResponse({ error: result.error }, 400);
+      await saveWebhooks(kv, result.webhooks);
+      return jsonResponse({ success: true, webhooks: result.webhooks });
+    }
+    return new Response(null, { status: 405 });
+  }
+
+  if (path === '/api/webhooks/deliveries' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    // Bodies can be large; the log only needs the outcome
+    const deliveries = (await getDeliveries(kv)).map(({ body: _body, ...d }) => d);
+    return jsonResponse({ deliveries });
+  }
+
+  if (path === '/api/sync' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const state = await getChatSyncState(kv);
+    return jsonResponse({
+      mode: needsFullScan(state) ? 'fullScan' : 'log',
+      scanStartedAt: state.scan?.startedAt ?? null,
+      lastFullScanAt: state.lastFullScanAt ?? null,
+      pending: state.pending.length,
     });
   }
 
-  return new Response('Not Found', { status: 404 });
-}
+  if (path === '/api/sync/resync' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const state = await getChatSyncState(kv);
+    startFullScan(state, new Date());
+    await saveChatSyncState(kv, state);
+    return jsonResponse({ success: true });
+  }
 
-function getSetupWizardHtml(baseUrl: string): string {
-  const adminUrl = `${baseUrl}/admin`;
-  const defaultMsg = DEFAULT_WELCOME.replace(/"/g, '&quot;');
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1">
-  <title>Setup - Bluesky DM Reply Bot</title>
-  <style>
-    * { box-sizing: border-box; }
-    body { font-family: system-ui, sans-serif; max-width: 500px; margin: 2rem auto; padding: 1rem; }
+  if (path === '/api/config/history' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    return jsonResponse({ versions: await getConfigHistory(kv), maxVersions: MAX_VERSIONS });
+  }
+
+  // Text diff between two versions (`to` defaults to the current settings, `from` to the version before `to`)
+  if (path === '/api/config/history/diff' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const toParam = url.searchParams.get('to');
+    const to = toParam ? Number(toParam) : null;
+    const from = Number(url.searchParams.get('from') ?? (to !== null ? to - 1 : NaN));
+    if (!Number.isInteger(from) || (to !== null && !Number.isInteger(to))) {
+      return jsonResponse({ error: 'from and to must be version numbers' }, 400);
+    }
+    const before = await getConfigVersion(kv, from);
+    const after = to !== null ? await getConfigVersion(kv, to) : { ...config, rules: await getRules(kv) };
+    if (!before || !after) return jsonResponse({ error: 'Version not found' }, 404);
+    return jsonResponse({ from, to, lines: diffLines(configText(before), configText(after)) });
+  }
+
+  // Restore an earlier version (settings and reply rules) as a new version. The admin password and setup
+  // state stay as they are, and versions from before rules were versioned leave the current rules alone.
+  if (path === '/api/config/history/restore' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { version?: number };
+    const snapshot = typeof body.version === 'number' ? await getConfigVersion(kv, body.version) : null;
+    if (!snapshot) return jsonResponse({ error: 'Version not found' }, 404);
+    const { adminPasswordHash: _hash, setupComplete: _setup, rules: snapshotRules, ...settings } = snapshot;
+    const restored: BotConfig = {
+      ...settings,
+      adminPasswordHash: config.adminPasswordHash,
+      setupComplete: config.setupComplete,
+    };
+    if (!config.adminPasswordHash) delete restored.adminPasswordHash;
+    await saveConfig(kv, restored, `Restored version ${body.version}`, snapshotRules);
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/experiment' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const experiment = config.experiment ?? defaultExperiment();
+    const stats = await getExperimentStats(kv);
+    return jsonResponse({
+      enabled: experiment.enabled,
+      startedAt: stats.startedAt,
+      variants: experiment.variants.map((v) => {
+        const s = stats.variants[v.id] ?? { sends: 0, responses: 0, responseMs: [] };
+        return {
+          id: v.id,
+          name: v.name,
+          weight: v.weight,
+          sends: s.sends,
+          responses: s.responses,
+          responseRate: s.sends > 0 ? s.responses / s.sends : null,
+          medianResponseMs: median(s.responseMs),
+        };
+      }),
+    });
+  }
+
+  // Make a variant the welcome message, end the test and start the next one's counts from zero
+  if (path === '/api/experiment/promote' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { variantId?: string };
+    const experiment = config.experiment ?? defaultExperiment();
+    const variant = experiment.variants.find((v) => v.id === body.variantId);
+    if (!variant) return jsonResponse({ error: 'Variant not found' }, 404);
+    await saveConfig(
+      kv,
+      { ...config, welcomeMessage: variant.message, experiment: { ...experiment, enabled: false } },
+      `Promoted A/B variant "${variant.name}"`
+    );
+    await resetExperimentStats(kv);
+    return jsonResponse({ success: true, welcomeMessage: variant.message });
+  }
+
+  if (path === '/api/experiment/reset' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    await resetExperimentStats(kv);
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/moderation' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    return jsonResponse({ entries: await getModerationLog(kv) });
+  }
+
+  // "Not spam": unmute the convo and let the next run reply to the DM. Leaving and reports can't be undone.
+  if (path === '/api/moderation/undo' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { id?: string };
+    const log = await getModerationLog(kv);
+    const entry = log.find((e) => e.id === body.id);
+    if (!entry) return jsonResponse({ error: 'Moderation entry not found' }, 404);
+    if (entry.undoneAt) return jsonResponse({ success: true, entry });
+    if (entry.muted && !entry.left) {
+      let unmuted: boolean;
+      try {
+        unmuted = await (await getAdminClient(env)).unmuteConvo(entry.convoId);
+      } catch (err) {
+        return jsonResponse({ error: `Could not unmute the conversation: ${(err as Error).message}` }, 502);
+      }
+      if (!unmuted) return jsonResponse({ error: 'Could not unmute the conversation' }, 502);
+    }
+    entry.undoneAt = new Date().toISOString();
+    await saveModerationLog(kv, log);
+    if (!entry.left) {
+      const state = await getChatSyncState(kv);
+      if (!state.pending.includes(entry.convoId)) {
+        state.pending.unshift(entry.convoId);
+        await saveChatSyncState(kv, state);
+      }
+    }
+    return jsonResponse({ success: true, entry });
+  }
+
+  if (path === '/api/rate-limits' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const state = await getRateLimitState(kv);
+    const now = new Date();
+    return jsonResponse({
+      ...state,
+      paused: isPaused(state, now),
+      caps: {
+        replies: budgetCap(state, 'chatWrite', MAX_REPLIES_PER_RUN, now),
+        historyChecks: budgetCap(state, 'chatRead', MAX_HISTORY_CHECKS_PER_RUN, now),
+        profileLookups: budgetCap(state, 'appView', MAX_PROFILE_LOOKUPS_PER_RUN, now),
+      },
+    });
+  }
+
+  if (path === '/api/sequences' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const steps = config.followUps ?? [];
+    const sequences = (await getSequences(kv))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .map((s) => ({ ...s, totalSteps: steps.length, nextDueAt: nextDueAt(s, steps)?.toISOString() ?? null }));
+    return jsonResponse({ sequences });
+  }
+
+  if (path === '/api/sequences/stop' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { convoId?: string };
+    const sequences = await getSequences(kv);
+    const state = sequences.find((s) => s.convoId === body.convoId && s.status === 'active');
+    if (!state) return jsonResponse({ error: 'No active sequence for that conversation' }, 404);
+    finishSequence(state, 'stopped', 'stopped by admin');
+    await saveSequences(kv, sequences);
+    return jsonResponse({ success: true });
+  }
+
+  // Send the saved auto-reply (with its attached post) or arbitrary text to one account, e.g. a test alt
+  if (path === '/api/send' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { handle?: string; text?: string };
+    const account = (body.handle || '').trim().replace(/^@/, '');
+    if (!account) return jsonResponse({ error: 'handle is required' }, 400);
+    const customText = (body.text || '').trim();
+    if (customText.length > 1000) return jsonResponse({ error: 'Message exceeds 1000 characters' }, 400);
+    const welcome = config.welcomeMessage?.trim() || DEFAULT_WELCOME;
+    let client: BlueskyDmClient;
+    let did: string | null;
+    let profile: ActorProfile | null = null;
+    try {
+      client = await getAdminClient(env);
+      did = account.startsWith('did:') ? account : await client.resolveHandle(account);
+      if (did && !customText && needsProfile(welcome)) profile = await client.getProfile(did);
+    } catch (err) {
+      if (err instanceof RateLimitError) {
+        return jsonResponse({ error: 'Bluesky rate limit exceeded', code: 'rateLimited' }, 429);
+      }
+      return jsonResponse({ error: `Could not look up the account: ${(err as Error).message}` }, 502);
+    }
+    if (!did) return jsonResponse({ error: `Handle not found: @${account}`, code: 'handleNotFound' }, 404);
+    const text =
+      customText ||
+      renderTemplate(welcome, {
+        did,
+        handle: profile?.handle,
+        displayName: profile?.displayName,
+        now: new Date(),
+        timeZone: config.timeZone,
+      });
+    let result: SendDmResult;
+    try {
+      result = await client.sendDmToUser(did, text, customText ? undefined : config.embedPost);
+    } catch (err) {
+      return jsonResponse({ error: `Could not send the message: ${(err as Error).message}`, code: 'sendFailed' }, 502);
+    }
+    if (!result.ok) {
+      return jsonResponse({ error: result.message, code: result.code }, SEND_ERROR_STATUS[result.code]);
+    }
+    return jsonResponse({ success: true, did, convoId: result.convoId, text });
+  }
+
+  if (path === '/api/preview' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    return jsonResponse({ dryRun: !!config.dryRun, queue: await getPreviewQueue(kv) });
+  }
+
+  if (path === '/api/preview/dry-run' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { dryRun?: boolean };
+    await saveConfig(kv, { ...config, dryRun: !!body.dryRun }, body.dryRun ? 'Dry run on' : 'Dry run off');
+    return jsonResponse({ success: true, dryRun: !!body.dryRun });
+  }
+
+  if (path === '/api/preview/remove' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { did?: string };
+    const queue = await getPreviewQueue(kv);
+    if (!body.did || !removeFromPreview(queue, body.did)) {
+      return jsonResponse({ error: 'That user is not in the preview queue' }, 404);
+    }
+    await savePreviewQueue(kv, queue);
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/preview/clear' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    await savePreviewQueue(kv, []);
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/preview/send' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const queue = await getPreviewQueue(kv);
+    if (queue.length === 0) return jsonResponse({ success: true, sent: 0, failed: 0, dropped: 0, remaining: 0 });
+    let client: BlueskyDmClient;
+    try {
+      client = await getAdminClient(env);
+    } catch (err) {
+      return jsonResponse({ error: `Could not log in to Bluesky: ${(err as Error).message}` }, 502);
+    }
+    let result = { sent: 0, failed: 0, dropped: 0 };
+    let rateLimited = false;
+    const events: WebhookEvent[] = [];
+    try {
+      result = await sendPreviewBatch(env, client, config, queue, events);
+    } catch (err) {
+      if (!(err instanceof RateLimitError)) throw err;
+      rateLimited = true;
+      events.push(createWebhookEvent('rate_limited', {}));
+    } finally {
+      await savePreviewQueue(kv, queue);
+      await deliverWebhooks(kv, events);
+    }
+    if (rateLimited) {
+      return jsonResponse({ error: 'Bluesky rate limit hit; try again in a few minutes', remaining: queue.length }, 429);
+    }
+    return jsonResponse({ success: true, ...result, remaining: queue.length });
+  }
+
+  if (path === '/api/preview/go-live' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    // The cycle picks up the queued DMs itself once live, so the previews are no longer needed
+    await saveConfig(kv, { ...config, dryRun: false, enabled: true }, 'Went live from dry run');
+    await savePreviewQueue(kv, []);
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/lists' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    return jsonResponse(await getAccessLists(kv));
+  }
+
+  if (path === '/api/lists/mode' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { mode?: string };
+    if (body.mode !== 'all' && body.mode !== 'allowlistOnly') {
+      return jsonResponse({ error: 'mode must be all or allowlistOnly' }, 400);
+    }
+    const lists = await getAccessLists(kv);
+    lists.mode = body.mode;
+    await saveAccessLists(kv, lists);
+    return jsonResponse({ success: true, mode: lists.mode });
+  }
+
+  if (path === '/api/lists/add' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { list?: string; account?: string; note?: string };
+    if (body.list !== 'allow' && body.list !== 'block') {
+      return jsonResponse({ error: 'list must be allow or block' }, 400);
+    }
+    const account = (body.account || '').trim().replace(/^@/, '');
+    if (!account) return jsonResponse({ error: 'Enter a handle or DID' }, 400);
+    let did: string | null;
+    let handle: string | undefined;
+    try {
+      const client = await getAdminClient(env);
+      if (account.startsWith('did:')) {
+        did = account;
+        handle = (await client.getProfile(did))?.handle;
+      } else {
+        handle = account.toLowerCase();
+        did = await client.resolveHandle(handle);
+      }
+    } catch (err) {
+      return jsonResponse({ error: `Could not look up the account: ${(err as Error).message}` }, 502);
+    }
+    if (!did) return jsonResponse({ error: `Handle not found: @${account}` }, 404);
+    const lists = await getAccessLists(kv);
+    const note = (body.note || '').trim().slice(0, 200);
+    const error = addToAccessList(lists, body.list, {
+      did,
+      ...(handle ? { handle } : {}),
+      ...(note ? { note } : {}),
+      addedAt: new Date().toISOString(),
+    });
+    if (error) return jsonResponse({ error }, 400);
+    await saveAccessLists(kv, lists);
+    return jsonResponse({ success: true, lists });
+  }
+
+  if (path === '/api/lists/remove' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { list?: AccessListName; did?: string };
+    if (body.list !== 'allow' && body.list !== 'block') {
+      return jsonResponse({ error: 'list must be allow or block' }, 400);
+    }
+    const lists = await getAccessLists(kv);
+    if (!body.did || !removeFromAccessList(lists, body.list, body.did)) {
+      return jsonResponse({ error: 'Account is not on that list' }, 404);
+    }
+    await saveAccessLists(kv, lists);
+    return jsonResponse({ success: true, lists });
+  }
+
+  if (path === '/api/ledger' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const q = url.searchParams.get('q')?.trim();
+    if (q) {
+      return jsonResponse({ entries: await searchLedger(kv, q) });
+    }
+    return jsonResponse(await listLedger(kv, url.searchParams.get('cursor') || undefined));
+  }
+
+  if (path === '/api/ledger/reset' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { did?: string };
+    if (!body.did) return jsonResponse({ error: 'did is required' }, 400);
+    if (!(await resetLedgerEntry(kv, body.did))) {
+      return jsonResponse({ error: 'User is not in the ledger' }, 404);
+    }
+    return jsonResponse({ success: true });
+  }
+
+  if (path === '/api/ledger/reset-all' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json().catch(() => ({}))) as { cursor?: string };
+    return jsonResponse({ success: true, ...(await resetLedgerBatch(kv, body.cursor)) });
+  }
+
+  if (path === '/api/activity' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const filter = (url.searchParams.get('filter') || 'all') as ActivityFilter;
+    if (!['all', 'replies', 'skips', 'errors'].includes(filter)) {
+      return jsonResponse({ error: 'filter must be all, replies, skips or errors' }, 400);
+    }
+    const runs = filterActivity(await getActivity(kv), filter, url.searchParams.get('q') || undefined);
+    return jsonResponse({ runs });
+  }
+
+  // Daily counters for the last N days (7, 30 or 90), as JSON or CSV
+  if (path === '/api/analytics' && request.method === 'GET') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const days = Number(url.searchParams.get('days') || 30);
+    if (![7, 30, 90].includes(days)) return jsonResponse({ error: 'days must be 7, 30 or 90' }, 400);
+    const format = url.searchParams.get('format') || 'json';
+    if (format !== 'json' && format !== 'csv') return jsonResponse({ error: 'format must be json or csv' }, 400);
+    const rows = lastDays(await getAnalytics(kv), days, new Date());
+    if (format === 'csv') {
+      return new Response(analyticsCsv(rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dm-analytics-${days}d.csv"`,
+        },
+      });
+    }
+    return jsonResponse({ days: rows, retentionDays: RETENTION_DAYS });
+  }
+
+  if (path === '/api/toggle' && request.method === 'POST') {
+    if (!isAuthenticated) return jsonResponse({ error: 'Unauthorized' }, 401);
+    const body = (await request.json()) as { enabled?: boolean };
+    const newConfig: BotConfig = { ...config, enabled: body.enabled ?? !config.enabled };
+    await saveConfig(kv, newConfig, newConfig.enabled ? 'Turned on' : 'Turned off');
+    return jsonResponse({ success: true, enabled: newConfig.enabled });
+  }
+
+  if (path === '/ledger' && request.method === 'GET') {
+    if (!isAuthenticated) {
+      return new Response(getAdminLoginHtml(baseUrl), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return new Response(getLedgerPageHtml(baseUrl), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  if (path === '/analytics' && request.method === 'GET') {
+    if (!isAuthenticated) {
+      return new Response(getAdminLoginHtml(baseUrl), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return new Response(getAnalyticsPageHtml(baseUrl), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  if (path === '/activity' && request.method === 'GET') {
+    if (!isAuthenticated) {
+      return new Response(getAdminLoginHtml(baseUrl), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return new Response(getActivityPageHtml(baseUrl), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  if ((path === '/' || path === '') && request.method === 'GET') {
+    if (!isAuthenticated) {
+      return new Response(getAdminLoginHtml(baseUrl), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return new Response(getAdminPageHtml(baseUrl), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  }
+
+  return new Response('Not Found', { status: 404 });
+}
+
+function getSetupWizardHtml(baseUrl: string): string {
+  const adminUrl = `${baseUrl}/admin`;
+  const defaultMsg = DEFAULT_WELCOME.replace(/"/g, '&quot;');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Setup - Bluesky DM Reply Bot</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; max-width: 500px; margin: 2rem auto; padding: 1rem; }
     h1 { font-size: 1.25rem; margin-bottom: 0.5rem; }
     .sub { font-size: 0.9rem; color: #666; margin-bottom: 1.5rem; }
     .card { border: 1px solid #ddd; border-radius: 8px; padding: 1rem; margin-bottom: 1rem; }
@@ -422,14 +2030,14 @@ function getSetupWizardHtml(baseUrl: string): string {
   </div>
   <div class="card">
     <h2>2. Auto-reply message</h2>
-    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent when someone DMs your Bluesky account for the first time. Plain text only (max 1000 chars).</p>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent when someone DMs your Bluesky account for the first time. Links, @mentions and #hashtags become clickable (max 1000 chars).</p>
     <label for="welcome">Message</label>
     <textarea id="welcome" maxlength="1000" placeholder="${defaultMsg}">${defaultMsg}</textarea>
     <span class="char-count" id="charCount">${defaultMsg.length} / 1000 characters</span>
   </div>
   <div class="card">
     <h2>3. Message delay</h2>
-    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Wait this many seconds before sending (0 = instant). 5–30 sec helps avoid spam flags. Max 300.</p>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Wait this many seconds before sending (0 = instant). 5–30 sec helps avoid spam flags. Max 300. Delayed replies go out on the first run (every minute) after the delay.</p>
     <label for="delay">Delay (seconds)</label>
     <input type="number" id="delay" min="0" max="300" value="0" step="1" style="width: auto;">
   </div>
@@ -538,6 +2146,12 @@ function getAdminLoginHtml(baseUrl: string): string {
 function getAdminPageHtml(baseUrl: string): string {
   const adminUrl = `${baseUrl}/admin`;
   const defaultMsg = DEFAULT_WELCOME.replace(/"/g, '&quot;');
+  const placeholderList = TEMPLATE_VARIABLES.map((v) => `<code>{${v}}</code>`).join(' ');
+  const languageFields = WELCOME_LANGUAGES.map(
+    (l) => `<label for="welcome_${l}" style="font-weight: normal;">${LANGUAGE_NAMES[l]}</label>
+    <textarea id="welcome_${l}" maxlength="1000" style="min-height: 4em;"></textarea>`
+  ).join('\n    ');
+  const languageOptions = WELCOME_LANGUAGES.map((l) => `<option value="${l}">${LANGUAGE_NAMES[l]}</option>`).join('');
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -567,11 +2181,52 @@ function getAdminPageHtml(baseUrl: string): string {
     .toggle::after { content: ''; position: absolute; width: 22px; height: 22px; background: white; border-radius: 50%; top: 3px; left: 3px; transition: left 0.2s; box-shadow: 0 1px 3px rgba(0,0,0,0.3); }
     .toggle.active::after { left: 27px; }
     .toggle-label { font-weight: 500; }
+    .rule { border: 1px solid #eee; border-radius: 6px; padding: 0.75rem; margin-bottom: 0.5rem; }
+    .rule-row { display: flex; gap: 0.5rem; align-items: center; margin-bottom: 0.5rem; flex-wrap: wrap; }
+    .rule-row input[type="text"] { flex: 1; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px; }
+    .rule-row label { display: inline-flex; gap: 0.25rem; align-items: center; margin: 0; font-weight: normal; }
+    select { padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px; }
+    button.secondary { background: #eee; color: #333; }
+    button.secondary:hover { background: #ddd; }
+    .error { color: #c00; font-size: 0.85rem; }
+    .hours-table { border-collapse: collapse; margin-bottom: 0.75rem; }
+    .hours-table td { padding: 0.2rem 0.5rem 0.2rem 0; font-size: 0.9rem; }
+    .hours-table input, .override input { padding: 0.3rem; border: 1px solid #ccc; border-radius: 4px; }
+    .override { display: flex; gap: 0.4rem; align-items: center; flex-wrap: wrap; margin-bottom: 0.4rem; }
+    .data-table { width: 100%; border-collapse: collapse; font-size: 0.85rem; margin-top: 0.5rem; }
+    .data-table th, .data-table td { text-align: left; padding: 0.3rem 0.4rem; border-bottom: 1px solid #eee; }
+    .data-table th { font-weight: 500; color: #666; }
+    .diff { background: #fafafa; border: 1px solid #eee; border-radius: 6px; padding: 0.5rem 0.75rem; font-size: 0.8rem; overflow-x: auto; max-height: 400px; overflow-y: auto; }
+    .diff-title { font-weight: 500; margin-bottom: 0.4rem; font-family: inherit; }
+    .diff-added { background: #e6ffec; color: #064; }
+    .diff-removed { background: #ffebe9; color: #a00; }
+    .diff-same { color: #666; }
+    .preview { white-space: pre-wrap; background: #f5f8fc; border: 1px solid #dde6f0; border-radius: 6px; padding: 0.5rem 0.75rem; font-size: 0.9rem; margin-bottom: 0.5rem; }
   </style>
 </head>
 <body>
   <h1>Bluesky DM Reply Bot</h1>
   <p class="sub">Configure the preset message sent when users DM your Bluesky account for the first time.</p>
+  <div class="card">
+    <h2>Account</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Every setting on this page (and the replied users and activity pages) belongs to the selected account.</p>
+    <div class="rule-row">
+      <select id="accountSelect"></select>
+      <button id="removeAccountBtn" class="secondary" style="display:none">Remove account</button>
+    </div>
+    <div id="addAccountForm" style="display:none">
+      <label for="newAccountHandle" style="margin-top: 0.5rem;">Add an account</label>
+      <div class="rule-row">
+        <input type="text" id="newAccountHandle" placeholder="brand.bsky.social">
+        <input type="password" id="newAccountPassword" placeholder="App password (with DM access)" autocomplete="off">
+      </div>
+      <div class="rule-row">
+        <input type="text" id="newAccountService" placeholder="PDS URL (optional, default https://bsky.social)">
+        <button id="addAccountBtn" class="secondary">Add account</button>
+      </div>
+    </div>
+    <span id="accountStatus" class="char-count"></span>
+  </div>
   <div class="card">
     <h2>Flow status</h2>
     <div class="toggle-wrap">
@@ -579,67 +2234,917 @@ function getAdminPageHtml(baseUrl: string): string {
       <span id="toggleLabel" class="toggle-label">Off</span>
     </div>
     <p class="sub" style="margin: 0.5rem 0 0 0; font-size: 0.85rem;">When on, new users who DM you receive the auto-reply below. Runs on a schedule (every minute).</p>
+    <p class="sub" style="margin: 0.5rem 0 0 0; font-size: 0.85rem;">Each run only reads new chat activity. If a DM seems to have been missed, resync to go through all conversations again (this can take a few runs).</p>
+    <div class="actions" style="margin-top: 0.5rem;">
+      <button id="resyncBtn" class="secondary">Resync all conversations</button>
+      <span id="syncStatus" class="status" style="margin: 0;"></span>
+    </div>
+  </div>
+  <div class="card">
+    <h2>Rate limits</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">The bot reads Bluesky's rate-limit headers and sends and checks less per run when a budget runs low. After a rate limit it pauses until the limit resets, and longer if it keeps happening.</p>
+    <p id="rateLimitStatus" class="sub" style="margin:0 0 0.5rem 0; font-size: 0.85rem;">Loading…</p>
+    <div id="rateLimitTable"></div>
+    <button id="refreshRateLimitsBtn" class="secondary" style="margin-top: 0.5rem;">Refresh</button>
+  </div>
+  <div class="card">
+    <h2>Dry run</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Check who would get an auto-reply before going live. In dry run the bot decides exactly as usual — even while the flow is off — but only queues the replies here. Nothing is sent and nobody is marked as replied.</p>
+    <label style="font-weight: normal;"><input type="checkbox" id="dryRun"> Dry run (queue replies instead of sending)</label>
+    <div id="previewTable"></div>
+    <div class="actions" style="margin-top: 0.5rem;">
+      <button id="approvePreviewBtn">Approve and send these</button>
+      <button id="goLiveBtn" class="secondary">Switch to live</button>
+      <button id="clearPreviewBtn" class="secondary">Clear</button>
+      <span id="previewStatus" class="status" style="margin: 0;"></span>
+    </div>
   </div>
   <div class="card">
     <h2>Message delay</h2>
-    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Seconds to wait before sending (0 = instant). 5–30 sec helps avoid spam flags. Max 300.</p>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Seconds to wait before sending (0 = instant). 5–30 sec helps avoid spam flags. Max 300. Delayed replies are queued and go out on the first run (every minute) after the delay.</p>
     <label for="delay">Delay (seconds)</label>
     <input type="number" id="delay" min="0" max="300" value="0" step="1" style="width: 6em;">
   </div>
   <div class="card">
     <h2>Auto-reply message</h2>
-    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent once per user on their first DM. Plain text, max 1000 characters.</p>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent once per user on their first DM. Links, @mentions and #hashtags become clickable. Max 1000 characters.</p>
     <label for="welcome">Message</label>
     <textarea id="welcome" maxlength="1000"></textarea>
     <span id="charCount" class="char-count">0 / 1000 characters</span>
+    <label style="margin-top: 0.75rem;">Translations (optional)</label>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent instead of the message above when someone writes in that language. The language is guessed from their DM, or from their recent posts when the DM is too short. Leave empty to send the message above.</p>
+    ${languageFields}
+    <p class="sub" style="margin:0.75rem 0 0.5rem 0; font-size: 0.8rem;">Placeholders: ${placeholderList}. Add a fallback with <code>{displayName|there}</code> — used when the value is empty.</p>
+    <label for="timeZone">Time zone (for {date} / {time} and business hours)</label>
+    <input type="text" id="timeZone" placeholder="UTC (e.g. America/New_York)" style="width: 16em; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px; margin-bottom: 0.5rem;">
+    <label for="embedPost">Attached post (optional)</label>
+    <input type="text" id="embedPost" placeholder="https://bsky.app/profile/you.bsky.social/post/3k…" style="width: 100%; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px;">
+    <span class="char-count" style="margin-bottom: 0.5rem;">Shown as an embedded post under the first auto-reply, e.g. your FAQ or pricing post. Paste a bsky.app post link or an at:// URI.</span>
+    <label for="previewLang">Preview</label>
+    <select id="previewLang" style="margin-bottom: 0.5rem;"><option value="">Default message</option>${languageOptions}</select>
+    <div id="preview" class="preview"></div>
+    <label style="font-weight: normal;"><input type="checkbox" id="previewNoName"> Preview for someone without a display name</label>
+    <div id="templateError" class="error"></div>
+    <label for="testHandle" style="margin-top: 0.75rem;">Send a test</label>
+    <textarea id="testText" maxlength="1000" style="min-height: 3em;" placeholder="Text to send (optional; leave blank to send the saved auto-reply)"></textarea>
+    <div class="rule-row" style="margin-top: 0.5rem;">
+      <input type="text" id="testHandle" placeholder="your-alt.bsky.social">
+      <button id="testSendBtn" class="secondary">Send saved message</button>
+    </div>
+    <span id="testSendStatus" class="char-count">Sends the saved auto-reply (with the attached post), or the text above as is, so you can check formatting. Doesn't count as an auto-reply.</span>
+  </div>
+  <div class="card">
+    <h2>A/B test</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">While on, people who'd get the auto-reply message above get one of these variants instead (translations still go to people writing in those languages). Each person always gets the same variant; weights set how many people get each one. An answer within the response window counts as a response.</p>
+    <label style="font-weight: normal;"><input type="checkbox" id="experimentEnabled"> Run the A/B test</label>
+    <label for="experimentWindow" style="margin-top: 0.5rem;">Response window (hours)</label>
+    <input type="number" id="experimentWindow" min="1" max="720" value="48" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <div id="variantsList"></div>
+    <button id="addVariantBtn" class="secondary">Add variant</button>
+    <h2 style="margin-top: 1rem;">Results</h2>
+    <div id="experimentTable"><p class="sub" style="margin:0; font-size: 0.85rem;">Loading…</p></div>
+    <div class="actions" style="margin-top: 0.5rem;">
+      <button id="refreshExperimentBtn" class="secondary">Refresh</button>
+      <button id="resetExperimentBtn" class="secondary">Reset counts</button>
+      <span id="experimentStatus" class="status" style="margin: 0;"></span>
+    </div>
+  </div>
+  <div class="card">
+    <h2>Who gets auto-replies</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Filters are checked before replying. Profile details are cached for a few hours.</p>
+    <label for="followMode">Follow status</label>
+    <select id="followMode" style="margin-bottom: 0.75rem;">
+      <option value="all">Everyone</option>
+      <option value="followers">Only people who follow me</option>
+      <option value="nonFollowers">Only people who don't follow me</option>
+    </select>
+    <label for="minAccountAgeDays">Skip accounts younger than (days, 0 = off)</label>
+    <input type="number" id="minAccountAgeDays" min="0" max="3650" value="0" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="minPosts">Skip accounts with fewer posts than (0 = off)</label>
+    <input type="number" id="minPosts" min="0" value="0" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="blockedLabels">Skip accounts with these labels</label>
+    <input type="text" id="blockedLabels" placeholder="spam, !hide, porn" style="width: 100%; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px;">
+    <span class="char-count">Comma-separated moderation label values.</span>
+  </div>
+  <div class="card">
+    <h2>Message requests</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">DMs from people you don't follow arrive as requests. Choose what the bot does with them. Replying to a request accepts it.</p>
+    <label for="requestPassing">Requests from people who pass the filters</label>
+    <select id="requestPassing" style="margin-bottom: 0.75rem;">
+      <option value="accept">Accept and auto-reply</option>
+      <option value="wait">Leave in requests; auto-reply once I accept it</option>
+      <option value="mute">Mute (no auto-reply)</option>
+      <option value="leave">Leave the conversation (no auto-reply)</option>
+    </select>
+    <label for="requestFiltered">Requests from blocked or filtered accounts (never auto-replied)</label>
+    <select id="requestFiltered">
+      <option value="wait">Leave in requests</option>
+      <option value="accept">Accept</option>
+      <option value="mute">Mute</option>
+      <option value="leave">Leave the conversation</option>
+    </select>
+  </div>
+  <div class="card">
+    <h2>Spam protection</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Each new DM is scored before any auto-reply: a denylisted link scores 3, a listed phrase 2, a new account 1, and the same text from several senders in a day 3. Flagged DMs get no reply. Only DMs that would get an auto-reply are checked, so allowlisted accounts and conversations you're already in are left alone.</p>
+    <label style="font-weight: normal;"><input type="checkbox" id="spamEnabled"> Check incoming DMs for spam</label>
+    <label for="spamThreshold" style="margin-top: 0.5rem;">Flag at score</label>
+    <input type="number" id="spamThreshold" min="1" max="20" value="3" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="spamDomains">Denylisted link domains</label>
+    <input type="text" id="spamDomains" placeholder="example-airdrop.com, bit.ly" style="width: 100%; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px;">
+    <span class="char-count" style="margin-bottom: 0.5rem;">Comma-separated. Subdomains match too.</span>
+    <label for="spamPhrases">Phrases</label>
+    <input type="text" id="spamPhrases" style="width: 100%; padding: 0.4rem; border: 1px solid #ccc; border-radius: 4px;">
+    <span class="char-count" style="margin-bottom: 0.5rem;">Comma-separated, case-insensitive.</span>
+    <label for="spamNewAccountDays">New account: younger than (days, 0 = off)</label>
+    <input type="number" id="spamNewAccountDays" min="0" max="3650" value="7" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="spamRepeatSenders">Repeated text: sent by at least this many accounts (0 = off)</label>
+    <input type="number" id="spamRepeatSenders" min="0" max="100" value="3" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="spamAction">Flagged conversations</label>
+    <select id="spamAction" style="margin-bottom: 0.5rem;">
+      <option value="none">Leave as is (no reply)</option>
+      <option value="mute">Mute</option>
+      <option value="leave">Leave the conversation</option>
+    </select>
+    <label style="font-weight: normal;"><input type="checkbox" id="spamReport"> Report flagged senders to Bluesky moderation</label>
+    <label style="margin-top: 0.75rem;">Flagged DMs</label>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">"Not spam" unmutes the conversation and lets the next run reply. Leaving a conversation and reports can't be undone.</p>
+    <div id="moderationTable"></div>
+    <button id="refreshModerationBtn" class="secondary" style="margin-top: 0.5rem;">Refresh</button>
+  </div>
+  <div class="card">
+    <h2>Allowlist &amp; blocklist</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Blocked accounts never get auto-replies. Allowlisted accounts always do (the filters above don't apply). Changes here are saved right away.</p>
+    <label for="listMode">Mode</label>
+    <select id="listMode" style="margin-bottom: 0.75rem;">
+      <option value="all">Everyone except blocked accounts</option>
+      <option value="allowlistOnly">Only allowlisted accounts (testing)</option>
+    </select>
+    <div class="rule-row">
+      <input type="text" id="listAccount" placeholder="handle.bsky.social or did:plc:…">
+      <input type="text" id="listNote" placeholder="Note (optional)">
+    </div>
+    <div class="rule-row">
+      <button id="addAllowBtn" class="secondary">Add to allowlist</button>
+      <button id="addBlockBtn" class="secondary">Add to blocklist</button>
+      <span id="listsStatus" class="status" style="margin: 0;"></span>
+    </div>
+    <h2 style="margin-top: 0.75rem;">Allowlist</h2>
+    <div id="allowTable"></div>
+    <h2 style="margin-top: 0.75rem;">Blocklist</h2>
+    <div id="blockTable"></div>
+  </div>
+  <div class="card">
+    <h2>Business hours</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Outside these hours, people who DM you get the away message instead. Hours are in the time zone set above; enter ranges like <code>09:00-12:00, 13:00-17:00</code> or leave blank for closed.</p>
+    <label style="font-weight: normal;"><input type="checkbox" id="schedEnabled"> Use business hours</label>
+    <p id="schedStatus" class="sub" style="margin: 0.25rem 0 0.5rem 0; font-size: 0.85rem;"></p>
+    <table class="hours-table"><tbody id="weeklyRows"></tbody></table>
+    <label for="inHoursMode">During business hours</label>
+    <select id="inHoursMode" style="margin-bottom: 0.75rem;">
+      <option value="welcome">Send the usual auto-reply</option>
+      <option value="none">Send nothing (we answer ourselves)</option>
+    </select>
+    <label>Holidays &amp; special hours</label>
+    <div id="overridesList"></div>
+    <button id="addOverrideBtn" class="secondary" style="margin-bottom: 0.75rem;">Add dates</button>
+    <label for="awayMessage">Away message</label>
+    <textarea id="awayMessage" maxlength="1000"></textarea>
+    <span class="char-count">Use <code>{backAt}</code> for when you're back, e.g. "tomorrow at 9:00 AM".</span>
+  </div>
+  <div class="card">
+    <h2>Welcome back</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Reply again when someone DMs after a long silence in the conversation (counted from the last message before their new DM).</p>
+    <label style="font-weight: normal;"><input type="checkbox" id="reengageEnabled"> Reply again after a period of silence</label>
+    <label for="reengageAfterDays" style="margin-top: 0.5rem;">Days of silence</label>
+    <input type="number" id="reengageAfterDays" min="1" max="3650" value="90" step="1" style="width: 6em; margin-bottom: 0.75rem;">
+    <label for="reengageMessage">Welcome back message</label>
+    <textarea id="reengageMessage" maxlength="1000"></textarea>
+    <span class="char-count">Leave blank to send the usual auto-reply. Placeholders work here too.</span>
+  </div>
+  <div class="card">
+    <h2>Follow-up messages</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Sent after the first auto-reply if nobody has written in the conversation since. Delays count from the first auto-reply. A sequence stops as soon as they reply or you reply yourself.</p>
+    <div id="followUpsList"></div>
+    <button id="addFollowUpBtn" class="secondary">Add follow-up</button>
+    <h2 style="margin-top: 1rem;">People in a sequence</h2>
+    <div id="sequencesTable"><p class="sub" style="margin:0; font-size: 0.85rem;">Loading…</p></div>
+  </div>
+  <div class="card">
+    <h2>Reply rules</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Checked in order against the first DM. The first matching rule's reply is sent instead of the auto-reply message above. <b>keyword</b>: comma-separated whole words; <b>phrase</b>: text anywhere in the message; <b>regex</b>: JavaScript regular expression.</p>
+    <div id="rulesList"></div>
+    <div class="actions" style="margin-top: 0.5rem;">
+      <button id="addRuleBtn" class="secondary">Add rule</button>
+      <button id="saveRulesBtn">Save rules</button>
+      <span id="rulesStatus" class="status" style="margin: 0;"></span>
+    </div>
+  </div>
+  <div class="card">
+    <h2>Webhooks</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">POST a signed JSON event to your own URL when a new DM arrives, an auto-reply is sent or fails, or Bluesky rate-limits the bot. Check the <code>X-Webhook-Signature</code> header (<code>t=…,v1=…</code>, HMAC-SHA256 of <code>t.body</code>) with the secret shown after saving. Failed deliveries are retried for about 15 hours.</p>
+    <div id="webhooksList"></div>
+    <div class="actions" style="margin-top: 0.5rem;">
+      <button id="addWebhookBtn" class="secondary">Add webhook</button>
+      <button id="saveWebhooksBtn">Save webhooks</button>
+      <span id="webhooksStatus" class="status" style="margin: 0;"></span>
+    </div>
+    <h2 style="margin-top: 1rem;">Recent deliveries</h2>
+    <div id="deliveriesTable"><p class="sub" style="margin:0; font-size: 0.85rem;">Loading…</p></div>
+    <button id="refreshDeliveriesBtn" class="secondary" style="margin-top: 0.5rem;">Refresh</button>
+  </div>
+  <div class="card">
+    <h2>Version history</h2>
+    <p class="sub" style="margin:0 0 0.5rem 0; font-size: 0.8rem;">Every change to these settings or the reply rules is kept as a version (the last ${MAX_VERSIONS}). Compare a version with the one before it or with the current settings, or restore it. Restoring saves it as a new version, so it can be undone too. The allowlist &amp; blocklist and webhooks are saved on their own and aren't versioned; versions from before reply rules were versioned don't change the rules.</p>
+    <div id="historyTable"><p class="sub" style="margin:0; font-size: 0.85rem;">Loading…</p></div>
+    <pre id="historyDiff" class="diff" style="display: none;"></pre>
+    <span id="historyStatus" class="status" style="margin: 0;"></span>
   </div>
   <div class="actions">
+    <input type="text" id="changeNote" maxlength="200" placeholder="Change note (optional)" style="flex: 1; padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px;">
     <button id="saveBtn">Save changes</button>
-    <a href="${adminUrl}/logout" style="margin-left: auto;">Log out</a>
+    <a href="${adminUrl}/ledger" style="margin-left: auto;">Replied users</a>
+    <a href="${adminUrl}/activity">Activity</a>
+    <a href="${adminUrl}/analytics">Analytics</a>
+    <a href="${adminUrl}/logout">Log out</a>
   </div>
   <div id="status" class="status"></div>
   <script>
     const adminUrl = '${adminUrl}';
     const defaultMsg = '${defaultMsg}';
+    const templateVars = ${JSON.stringify(TEMPLATE_VARIABLES)};
+    const welcomeLanguages = ${JSON.stringify(WELCOME_LANGUAGES)};
+    const placeholderRe = /\\{(\\w+)(?:\\|([^{}]*))?\\}/g;
 
-    async function load() {
-      const res = await fetch(adminUrl + '/api/config');
-      if (res.status === 401) { window.location.reload(); return; }
-      const data = await res.json();
-      document.getElementById('welcome').value = data.welcomeMessage || defaultMsg;
-      document.getElementById('charCount').textContent = (data.welcomeMessage || '').length + ' / 1000 characters';
-      const delayInput = document.getElementById('delay');
-      if (delayInput) delayInput.value = String(data.messageDelaySeconds ?? 0);
-      const enabled = !!data.enabled;
-      const tgl = document.getElementById('toggle');
-      const lbl = document.getElementById('toggleLabel');
-      tgl.classList.toggle('active', enabled);
-      tgl.setAttribute('aria-pressed', enabled ? 'true' : 'false');
-      lbl.textContent = enabled ? 'On' : 'Off';
+    function renderPreview() {
+      const lang = document.getElementById('previewLang').value;
+      const variant = lang ? document.getElementById('welcome_' + lang).value : '';
+      const text = variant.trim() ? variant : document.getElementById('welcome').value;
+      const locale = variant.trim() ? lang : 'en-US';
+      const noName = document.getElementById('previewNoName').checked;
+      const tzInput = document.getElementById('timeZone').value.trim();
+      let timeZone = 'UTC';
+      try { if (tzInput) { new Intl.DateTimeFormat('en-US', { timeZone: tzInput }); timeZone = tzInput; } } catch (e) {}
+      const now = new Date();
+      const sample = {
+        handle: '@alice.bsky.social',
+        displayName: noName ? '@alice.bsky.social' : 'Alice',
+        did: 'did:plc:example123',
+        date: new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone }).format(now),
+        time: new Intl.DateTimeFormat(locale, { timeStyle: 'short', timeZone }).format(now),
+        firstWords: 'Hey, do you take commissions…',
+        backAt: 'tomorrow at 9:00 AM'
+      };
+      const unknown = [];
+      document.getElementById('preview').textContent = text.replace(placeholderRe, (m, name, fallback) => {
+        if (!templateVars.includes(name)) { unknown.push('{' + name + '}'); return m; }
+        return sample[name] || (fallback !== undefined ? fallback : '');
+      });
+      const errEl = document.getElementById('templateError');
+      const tzError = tzInput && timeZone !== tzInput ? 'Unknown time zone: ' + tzInput + '. ' : '';
+      errEl.textContent = tzError + (unknown.length ? 'Unknown placeholder(s): ' + unknown.join(', ') : '');
     }
 
-    document.getElementById('welcome').addEventListener('input', function() {
-      document.getElementById('charCount').textContent = this.value.length + ' / 1000 characters';
-    });
+    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    let overrides = [];
 
-    document.getElementById('toggle').addEventListener('click', async function() {
-      const curr = this.classList.contains('active');
-      const next = !curr;
-      try {
-        const res = await fetch(adminUrl + '/api/toggle', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ enabled: next })
-        });
-        const data = await res.json();
-        if (res.ok) {
-          this.classList.toggle('active', data.enabled);
-          this.setAttribute('aria-pressed', data.enabled ? 'true' : 'false');
-          document.getElementById('toggleLabel').textContent = data.enabled ? 'On' : 'Off';
-          document.getElementById('status').textContent = data.enabled ? 'Flow enabled' : 'Flow disabled';
-          document.getElementById('status').className = 'status success';
-          setTimeout(() => document.getElementById('status').textContent = '', 2000);
-        }
+    function formatRanges(ranges) {
+      return (ranges || []).map((r) => r.start + '-' + r.end).join(', ');
+    }
+
+    function parseRanges(text, where) {
+      return text.split(',').map((p) => p.trim()).filter(Boolean).map((p) => {
+        const m = p.match(/^(\\d{1,2}:\\d{2})\\s*-\\s*(\\d{1,2}:\\d{2})$/);
+        if (!m) throw new Error(where + ': use HH:MM-HH:MM, got "' + p + '"');
+        return { start: m[1].padStart(5, '0'), end: m[2].padStart(5, '0') };
+      });
+    }
+
+    function renderWeekly(weekly) {
+      const tbody = document.getElementById('weeklyRows');
+      tbody.innerHTML = '';
+      dayNames.forEach((name, d) => {
+        const tr = document.createElement('tr');
+        const label = document.createElement('td');
+        label.textContent = name;
+        const cell = document.createElement('td');
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.id = 'hours' + d;
+        input.placeholder = 'Closed';
+        input.value = formatRanges(weekly[d]);
+        cell.appendChild(input);
+        tr.append(label, cell);
+        tbody.appendChild(tr);
+      });
+    }
+
+    function renderOverrides() {
+      const list = document.getElementById('overridesList');
+      list.innerHTML = '';
+      overrides.forEach((o, i) => {
+        const row = document.createElement('div');
+        row.className = 'override';
+        const from = document.createElement('input');
+        from.type = 'date';
+        from.value = o.from || '';
+        from.addEventListener('change', () => { o.from = from.value; });
+        const to = document.createElement('input');
+        to.type = 'date';
+        to.value = o.to || '';
+        to.addEventListener('change', () => { o.to = to.value; });
+        const label = document.createElement('input');
+        label.type = 'text';
+        label.placeholder = 'Label (e.g. Holiday)';
+        label.value = o.label || '';
+        label.addEventListener('input', () => { o.label = label.value; });
+        const hours = document.createElement('input');
+        hours.type = 'text';
+        hours.placeholder = 'Closed';
+        hours.value = o.hoursText !== undefined ? o.hoursText : formatRanges(o.hours);
+        hours.addEventListener('input', () => { o.hoursText = hours.value; });
+        row.append(from, '–', to, label, hours, ruleButton('Remove', () => { overrides.splice(i, 1); renderOverrides(); }));
+        list.appendChild(row);
+      });
+    }
+
+    function renderScheduleStatus(status) {
+      const el = document.getElementById('schedStatus');
+      if (!status || !status.enabled) { el.textContent = ''; return; }
+      el.textContent = status.open ? 'Currently open.' : 'Currently closed' + (status.backAt ? ' — back ' + status.backAt + '.' : '.');
+    }
+
+    function collectSchedule() {
+      const weekly = dayNames.map((name, d) => parseRanges(document.getElementById('hours' + d).value, name));
+      return {
+        enabled: document.getElementById('schedEnabled').checked,
+        weekly,
+        overrides: overrides.map((o) => ({
+          from: o.from,
+          to: o.to || o.from,
+          label: o.label,
+          hours: parseRanges(o.hoursText !== undefined ? o.hoursText : formatRanges(o.hours), 'Dates ' + (o.from || '?'))
+        })),
+        inHoursMode: document.getElementById('inHoursMode').value,
+        awayMessage: document.getElementById('awayMessage').value.trim()
+      };
+    }
+
+    let followUps = [];
+
+    function renderFollowUps() {
+      const list = document.getElementById('followUpsList');
+      list.innerHTML = '';
+      followUps.forEach((step, i) => {
+        const row = document.createElement('div');
+        row.className = 'rule';
+        const top = document.createElement('div');
+        top.className = 'rule-row';
+        const hours = document.createElement('input');
+        hours.type = 'number';
+        hours.min = '1';
+        hours.step = '1';
+        hours.style.width = '6em';
+        hours.value = String(step.afterHours || 24);
+        hours.addEventListener('input', () => { step.afterHours = Number(hours.value); });
+        top.append('Send', hours, 'hours after the first auto-reply (24 = 1 day, 72 = 3 days)');
+        const msg = document.createElement('textarea');
+        msg.maxLength = 1000;
+        msg.placeholder = 'Just checking in — did you still need help?';
+        msg.value = step.message || '';
+        msg.addEventListener('input', () => { step.message = msg.value; });
+        const bottom = document.createElement('div');
+        bottom.className = 'rule-row';
+        bottom.style.marginTop = '0.5rem';
+        bottom.append(ruleButton('Remove', () => { followUps.splice(i, 1); renderFollowUps(); }));
+        row.append(top, msg, bottom);
+        list.appendChild(row);
+      });
+    }
+
+    document.getElementById('addFollowUpBtn').addEventListener('click', () => {
+      const last = followUps[followUps.length - 1];
+      followUps.push({ afterHours: last ? last.afterHours + 48 : 24, message: '' });
+      renderFollowUps();
+    });
+
+    let variants = [];
+
+    function renderVariants() {
+      const list = document.getElementById('variantsList');
+      list.innerHTML = '';
+      variants.forEach((v, i) => {
+        const row = document.createElement('div');
+        row.className = 'rule';
+        const top = document.createElement('div');
+        top.className = 'rule-row';
+        const name = document.createElement('input');
+        name.type = 'text';
+        name.placeholder = 'Variant ' + String.fromCharCode(65 + i);
+        name.value = v.name || '';
+        name.addEventListener('input', () => { v.name = name.value; });
+        const weight = document.createElement('input');
+        weight.type = 'number';
+        weight.min = '0';
+        weight.max = '100';
+        weight.step = '1';
+        weight.style.width = '5em';
+        weight.value = String(v.weight ?? 1);
+        weight.addEventListener('input', () => { v.weight = Number(weight.value); });
+        top.append(name, 'Weight', weight);
+        const msg = document.createElement('textarea');
+        msg.maxLength = 1000;
+        msg.placeholder = 'Hi {displayName|there}! Thanks for your message…';
+        msg.value = v.message || '';
+        msg.addEventListener('input', () => { v.message = msg.value; });
+        const bottom = document.createElement('div');
+        bottom.className = 'rule-row';
+        bottom.style.marginTop = '0.5rem';
+        bottom.append(ruleButton('Remove', () => { variants.splice(i, 1); renderVariants(); }));
+        row.append(top, msg, bottom);
+        list.appendChild(row);
+      });
+    }
+
+    document.getElementById('addVariantBtn').addEventListener('click', () => {
+      variants.push({ name: '', weight: 1, message: variants.length ? '' : document.getElementById('welcome').value });
+      renderVariants();
+    });
+
+    function formatDuration(ms) {
+      const minutes = Math.round(ms / 60000);
+      if (minutes < 60) return minutes + ' min';
+      const hours = ms / 3600000;
+      return (hours < 10 ? hours.toFixed(1) : Math.round(hours)) + ' h';
+    }
+
+    async function loadExperiment() {
+      const res = await fetch(adminUrl + '/api/experiment');
+      if (!res.ok) return;
+      const data = await res.json();
+      const wrap = document.getElementById('experimentTable');
+      wrap.innerHTML = '';
+      if (!data.variants.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No variants yet. Add two or more and save.</p>';
+        return;
+      }
+      const since = document.createElement('p');
+      since.className = 'sub';
+      since.style.cssText = 'margin:0 0 0.5rem 0; font-size: 0.8rem;';
+      since.textContent = 'Counting since ' + new Date(data.startedAt).toLocaleString() + '. Recent sends may still get a response.';
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>Variant</th><th>Weight</th><th>Sent</th><th>Responses</th><th>Response rate</th><th>Median time to response</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.variants.forEach((v) => {
+        const tr = document.createElement('tr');
+        [
+          v.name,
+          String(v.weight),
+          String(v.sends),
+          String(v.responses),
+          v.responseRate === null ? '—' : (v.responseRate * 100).toFixed(1) + '%',
+          v.medianResponseMs === null ? '—' : formatDuration(v.medianResponseMs)
+        ].forEach((t) => {
+          const td = document.createElement('td');
+          td.textContent = t;
+          tr.appendChild(td);
+        });
+        const td = document.createElement('td');
+        td.appendChild(ruleButton('Promote', async () => {
+          if (!confirm('Make "' + v.name + '" the auto-reply message and end the test? The counts start over.')) return;
+          const st = document.getElementById('experimentStatus');
+          const r = await fetch(adminUrl + '/api/experiment/promote', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ variantId: v.id })
+          });
+          const out = await r.json();
+          if (r.ok) {
+            st.textContent = 'Promoted.';
+            st.className = 'status success';
+            load();
+            loadExperiment();
+          } else {
+            st.textContent = out.error || 'Promote failed';
+            st.className = 'status';
+          }
+        }));
+        tr.appendChild(td);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.append(since, table);
+    }
+
+    document.getElementById('refreshExperimentBtn').addEventListener('click', loadExperiment);
+
+    async function showDiff(params, title) {
+      const pre = document.getElementById('historyDiff');
+      const res = await fetch(adminUrl + '/api/config/history/diff?' + new URLSearchParams(params));
+      const data = await res.json();
+      pre.style.display = 'block';
+      pre.innerHTML = '';
+      if (!res.ok) {
+        pre.textContent = data.error || 'Could not load the diff';
+        return;
+      }
+      const head = document.createElement('div');
+      head.className = 'diff-title';
+      head.textContent = title;
+      pre.appendChild(head);
+      if (!data.lines.some((l) => l.type !== 'same')) {
+        pre.appendChild(document.createTextNode('No differences.'));
+        return;
+      }
+      data.lines.forEach((l, i) => {
+        // Unchanged lines only as context around changes
+        const near = data.lines.slice(Math.max(0, i - 2), i + 3).some((x) => x.type !== 'same');
+        if (l.type === 'same' && !near) return;
+        const line = document.createElement('div');
+        line.className = 'diff-' + l.type;
+        line.textContent = (l.type === 'added' ? '+ ' : l.type === 'removed' ? '- ' : '  ') + l.text;
+        pre.appendChild(line);
+      });
+    }
+
+    async function loadHistory() {
+      const res = await fetch(adminUrl + '/api/config/history');
+      if (!res.ok) return;
+      const data = await res.json();
+      const wrap = document.getElementById('historyTable');
+      wrap.innerHTML = '';
+      if (!data.versions.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No versions yet. The next save starts the history.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>Version</th><th>Saved</th><th>Note</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.versions.forEach((v, i) => {
+        const tr = document.createElement('tr');
+        [String(v.version) + (i === 0 ? ' (current)' : ''), new Date(v.savedAt).toLocaleString(), v.note || ''].forEach((t) => {
+          const td = document.createElement('td');
+          td.textContent = t;
+          tr.appendChild(td);
+        });
+        const td = document.createElement('td');
+        const older = data.versions[i + 1];
+        if (older) {
+          td.appendChild(ruleButton('Changes', () => showDiff({ from: older.version, to: v.version }, 'Version ' + older.version + ' → ' + v.version)));
+        }
+        if (i > 0) {
+          td.appendChild(ruleButton('Compare with current', () => showDiff({ from: v.version }, 'Version ' + v.version + ' → current settings')));
+          td.appendChild(ruleButton('Restore', async () => {
+            if (!confirm('Restore the settings and reply rules from version ' + v.version + '? Your admin password stays the same.')) return;
+            const st = document.getElementById('historyStatus');
+            const r = await fetch(adminUrl + '/api/config/history/restore', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ version: v.version })
+            });
+            const out = await r.json();
+            if (r.ok) {
+              st.textContent = 'Restored version ' + v.version + '.';
+              st.className = 'status success';
+              load();
+              loadExperiment();
+              loadRules();
+              loadHistory();
+            } else {
+              st.textContent = out.error || 'Restore failed';
+              st.className = 'status';
+            }
+          }));
+        }
+        tr.appendChild(td);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+    document.getElementById('resetExperimentBtn').addEventListener('click', async () => {
+      if (!confirm('Reset the A/B test counts? Variant assignments stay the same.')) return;
+      const res = await fetch(adminUrl + '/api/experiment/reset', { method: 'POST' });
+      if (res.ok) loadExperiment();
+    });
+
+    async function loadSequences() {
+      const res = await fetch(adminUrl + '/api/sequences');
+      if (!res.ok) return;
+      const data = await res.json();
+      const wrap = document.getElementById('sequencesTable');
+      wrap.innerHTML = '';
+      if (!data.sequences.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">Nobody yet.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>User</th><th>Step</th><th>Next</th><th>Status</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.sequences.forEach((s) => {
+        const tr = document.createElement('tr');
+        const cells = [
+          s.handle ? '@' + s.handle : s.did,
+          s.nextStep + ' of ' + s.totalSteps + ' sent',
+          s.nextDueAt ? new Date(s.nextDueAt).toLocaleString() : '—',
+          s.status + (s.stopReason ? ' (' + s.stopReason + ')' : '')
+        ];
+        cells.forEach((text) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          tr.appendChild(td);
+        });
+        const action = document.createElement('td');
+        if (s.status === 'active') {
+          action.appendChild(ruleButton('Stop', async () => {
+            await fetch(adminUrl + '/api/sequences/stop', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ convoId: s.convoId })
+            });
+            loadSequences();
+          }));
+        }
+        tr.appendChild(action);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    async function loadPreview() {
+      const res = await fetch(adminUrl + '/api/preview');
+      if (!res.ok) return;
+      const data = await res.json();
+      document.getElementById('dryRun').checked = data.dryRun;
+      const wrap = document.getElementById('previewTable');
+      wrap.innerHTML = '';
+      document.getElementById('approvePreviewBtn').disabled = !data.queue.length;
+      if (!data.queue.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0.5rem 0 0 0; font-size: 0.85rem;">' + (data.dryRun ? 'Nobody would get a reply yet.' : 'Dry run is off.') + '</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>User</th><th>Type</th><th>Message</th><th>Queued</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.queue.forEach((q) => {
+        const tr = document.createElement('tr');
+        const cells = [q.handle ? '@' + q.handle : q.did, q.kind, q.message, new Date(q.queuedAt).toLocaleString()];
+        cells.forEach((text, i) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          if (i === 2) td.style.whiteSpace = 'pre-wrap';
+          tr.appendChild(td);
+        });
+        const action = document.createElement('td');
+        action.appendChild(ruleButton('Remove', async () => {
+          await fetch(adminUrl + '/api/preview/remove', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ did: q.did })
+          });
+          loadPreview();
+        }));
+        tr.appendChild(action);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    document.getElementById('dryRun').addEventListener('change', async function() {
+      await fetch(adminUrl + '/api/preview/dry-run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dryRun: this.checked })
+      });
+      loadPreview();
+    });
+
+    document.getElementById('approvePreviewBtn').addEventListener('click', async () => {
+      if (!confirm('Send the queued replies now?')) return;
+      const st = document.getElementById('previewStatus');
+      let sent = 0;
+      let dropped = 0;
+      for (;;) {
+        st.textContent = 'Sending… ' + sent + ' sent';
+        const res = await fetch(adminUrl + '/api/preview/send', { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) { st.textContent = (data.error || 'Send failed') + ' (' + sent + ' sent)'; break; }
+        sent += data.sent;
+        dropped += data.dropped;
+        if (!data.remaining || data.sent + data.dropped === 0) {
+          st.textContent = 'Sent ' + sent + '.' + (dropped ? ' Skipped ' + dropped + ' (already answered).' : '') + (data.remaining ? ' ' + data.remaining + ' failed.' : '');
+          break;
+        }
+      }
+      loadPreview();
+    });
+
+    document.getElementById('testSendBtn').addEventListener('click', async () => {
+      const handle = document.getElementById('testHandle').value.trim();
+      const text = document.getElementById('testText').value.trim();
+      const st = document.getElementById('testSendStatus');
+      if (!handle) { st.textContent = 'Enter a handle first.'; return; }
+      st.textContent = 'Sending…';
+      const res = await fetch(adminUrl + '/api/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(text ? { handle, text } : { handle })
+      });
+      const data = await res.json();
+      st.textContent = res.ok ? 'Sent to @' + handle.replace(/^@/, '') + '.' : (data.error || 'Send failed');
+    });
+
+    document.getElementById('testText').addEventListener('input', (e) => {
+      document.getElementById('testSendBtn').textContent = e.target.value.trim() ? 'Send this text' : 'Send saved message';
+    });
+
+    document.getElementById('goLiveBtn').addEventListener('click', async () => {
+      if (!confirm('Turn off dry run and turn the flow on? The queued DMs get their replies on the next run.')) return;
+      const res = await fetch(adminUrl + '/api/preview/go-live', { method: 'POST' });
+      if (res.ok) {
+        load();
+        loadPreview();
+      }
+    });
+
+    document.getElementById('clearPreviewBtn').addEventListener('click', async () => {
+      await fetch(adminUrl + '/api/preview/clear', { method: 'POST' });
+      loadPreview();
+    });
+
+    function renderAccessList(id, name, entries) {
+      const wrap = document.getElementById(id);
+      wrap.innerHTML = '';
+      if (!entries.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">Empty.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>Handle</th><th>DID</th><th>Note</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      entries.forEach((e) => {
+        const tr = document.createElement('tr');
+        [e.handle ? '@' + e.handle : '—', e.did, e.note || ''].forEach((text) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          tr.appendChild(td);
+        });
+        const action = document.createElement('td');
+        action.appendChild(ruleButton('Remove', async () => {
+          const res = await fetch(adminUrl + '/api/lists/remove', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ list: name, did: e.did })
+          });
+          if (res.ok) renderAccessLists((await res.json()).lists);
+        }));
+        tr.appendChild(action);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    function renderAccessLists(lists) {
+      document.getElementById('listMode').value = lists.mode;
+      renderAccessList('allowTable', 'allow', lists.allow);
+      renderAccessList('blockTable', 'block', lists.block);
+    }
+
+    async function loadAccessLists() {
+      const res = await fetch(adminUrl + '/api/lists');
+      if (res.ok) renderAccessLists(await res.json());
+    }
+
+    async function addToList(list) {
+      const st = document.getElementById('listsStatus');
+      st.textContent = 'Looking up…';
+      st.className = 'status';
+      const res = await fetch(adminUrl + '/api/lists/add', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          list,
+          account: document.getElementById('listAccount').value.trim(),
+          note: document.getElementById('listNote').value.trim()
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        document.getElementById('listAccount').value = '';
+        document.getElementById('listNote').value = '';
+        renderAccessLists(data.lists);
+        st.textContent = 'Added.';
+        st.className = 'status success';
+        setTimeout(() => st.textContent = '', 2000);
+      } else {
+        st.textContent = data.error || 'Failed to add';
+      }
+    }
+
+    document.getElementById('addAllowBtn').addEventListener('click', () => addToList('allow'));
+    document.getElementById('addBlockBtn').addEventListener('click', () => addToList('block'));
+    document.getElementById('listMode').addEventListener('change', async function() {
+      await fetch(adminUrl + '/api/lists/mode', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode: this.value })
+      });
+    });
+
+    document.getElementById('addOverrideBtn').addEventListener('click', () => {
+      overrides.push({ from: '', to: '', label: '', hours: [] });
+      renderOverrides();
+    });
+
+    async function load() {
+      const res = await fetch(adminUrl + '/api/config');
+      if (res.status === 401) { window.location.reload(); return; }
+      const data = await res.json();
+      document.getElementById('welcome').value = data.welcomeMessage || defaultMsg;
+      welcomeLanguages.forEach((l) => { document.getElementById('welcome_' + l).value = data.welcomeMessages[l] || ''; });
+      document.getElementById('charCount').textContent = (data.welcomeMessage || '').length + ' / 1000 characters';
+      const delayInput = document.getElementById('delay');
+      if (delayInput) delayInput.value = String(data.messageDelaySeconds ?? 0);
+      document.getElementById('timeZone').value = data.timeZone || '';
+      document.getElementById('embedPost').value = data.embedPostLink || '';
+      renderPreview();
+      const schedule = data.schedule;
+      document.getElementById('schedEnabled').checked = !!schedule.enabled;
+      document.getElementById('inHoursMode').value = schedule.inHoursMode;
+      document.getElementById('awayMessage').value = schedule.awayMessage || '';
+      renderWeekly(schedule.weekly);
+      overrides = schedule.overrides || [];
+      renderOverrides();
+      renderScheduleStatus(data.scheduleStatus);
+      followUps = data.followUps || [];
+      renderFollowUps();
+      document.getElementById('experimentEnabled').checked = !!data.experiment.enabled;
+      document.getElementById('experimentWindow').value = String(data.experiment.responseWindowHours);
+      variants = data.experiment.variants;
+      renderVariants();
+      const audience = data.audience;
+      document.getElementById('followMode').value = audience.followMode;
+      document.getElementById('minAccountAgeDays').value = String(audience.minAccountAgeDays);
+      document.getElementById('minPosts').value = String(audience.minPosts);
+      document.getElementById('blockedLabels').value = audience.blockedLabels.join(', ');
+      document.getElementById('requestPassing').value = data.requestPolicy.passing;
+      document.getElementById('requestFiltered').value = data.requestPolicy.filtered;
+      const spam = data.spam;
+      document.getElementById('spamEnabled').checked = !!spam.enabled;
+      document.getElementById('spamThreshold').value = String(spam.threshold);
+      document.getElementById('spamDomains').value = spam.blockedDomains.join(', ');
+      document.getElementById('spamPhrases').value = spam.phrases.join(', ');
+      document.getElementById('spamNewAccountDays').value = String(spam.newAccountDays);
+      document.getElementById('spamRepeatSenders').value = String(spam.repeatSenders);
+      document.getElementById('spamAction').value = spam.action;
+      document.getElementById('spamReport').checked = !!spam.report;
+      const reengagement = data.reengagement;
+      document.getElementById('reengageEnabled').checked = !!reengagement.enabled;
+      document.getElementById('reengageAfterDays').value = String(reengagement.afterDays);
+      document.getElementById('reengageMessage').value = reengagement.message || '';
+      const enabled = !!data.enabled;
+      const tgl = document.getElementById('toggle');
+      const lbl = document.getElementById('toggleLabel');
+      tgl.classList.toggle('active', enabled);
+      tgl.setAttribute('aria-pressed', enabled ? 'true' : 'false');
+      lbl.textContent = enabled ? 'On' : 'Off';
+    }
+
+    document.getElementById('welcome').addEventListener('input', function() {
+      document.getElementById('charCount').textContent = this.value.length + ' / 1000 characters';
+      renderPreview();
+    });
+    document.getElementById('timeZone').addEventListener('input', renderPreview);
+    document.getElementById('previewNoName').addEventListener('change', renderPreview);
+    document.getElementById('previewLang').addEventListener('change', renderPreview);
+    welcomeLanguages.forEach((l) => document.getElementById('welcome_' + l).addEventListener('input', renderPreview));
+
+    document.getElementById('toggle').addEventListener('click', async function() {
+      const curr = this.classList.contains('active');
+      const next = !curr;
+      try {
+        const res = await fetch(adminUrl + '/api/toggle', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ enabled: next })
+        });
+        const data = await res.json();
+        if (res.ok) {
+          this.classList.toggle('active', data.enabled);
+          this.setAttribute('aria-pressed', data.enabled ? 'true' : 'false');
+          document.getElementById('toggleLabel').textContent = data.enabled ? 'On' : 'Off';
+          document.getElementById('status').textContent = data.enabled ? 'Flow enabled' : 'Flow disabled';
+          document.getElementById('status').className = 'status success';
+          setTimeout(() => document.getElementById('status').textContent = '', 2000);
+        }
       } catch (e) {
         document.getElementById('status').textContent = 'Failed to toggle';
       }
@@ -648,14 +3153,68 @@ function getAdminPageHtml(baseUrl: string): string {
     document.getElementById('saveBtn').addEventListener('click', async () => {
       const welcome = document.getElementById('welcome').value.trim() || defaultMsg;
       const delay = Math.min(300, Math.max(0, parseInt(document.getElementById('delay').value, 10) || 0));
+      const timeZone = document.getElementById('timeZone').value.trim();
+      const st = document.getElementById('status');
+      let schedule;
+      try {
+        schedule = collectSchedule();
+      } catch (e) {
+        st.textContent = e.message;
+        st.className = 'status';
+        return;
+      }
       const res = await fetch(adminUrl + '/api/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ welcomeMessage: welcome, messageDelaySeconds: delay })
+        body: JSON.stringify({
+          welcomeMessage: welcome,
+          welcomeMessages: Object.fromEntries(welcomeLanguages.map((l) => [l, document.getElementById('welcome_' + l).value.trim()])),
+          messageDelaySeconds: delay,
+          timeZone,
+          schedule,
+          followUps,
+          changeNote: document.getElementById('changeNote').value.trim(),
+          experiment: {
+            enabled: document.getElementById('experimentEnabled').checked,
+            responseWindowHours: parseInt(document.getElementById('experimentWindow').value, 10) || 48,
+            variants
+          },
+          embedPostLink: document.getElementById('embedPost').value.trim(),
+          audience: {
+            followMode: document.getElementById('followMode').value,
+            minAccountAgeDays: parseInt(document.getElementById('minAccountAgeDays').value, 10) || 0,
+            minPosts: parseInt(document.getElementById('minPosts').value, 10) || 0,
+            blockedLabels: document.getElementById('blockedLabels').value.split(',').map((l) => l.trim()).filter(Boolean)
+          },
+          requestPolicy: {
+            passing: document.getElementById('requestPassing').value,
+            filtered: document.getElementById('requestFiltered').value
+          },
+          spam: {
+            enabled: document.getElementById('spamEnabled').checked,
+            threshold: parseInt(document.getElementById('spamThreshold').value, 10) || 3,
+            blockedDomains: document.getElementById('spamDomains').value.split(',').map((d) => d.trim()).filter(Boolean),
+            phrases: document.getElementById('spamPhrases').value.split(',').map((p) => p.trim()).filter(Boolean),
+            newAccountDays: parseInt(document.getElementById('spamNewAccountDays').value, 10) || 0,
+            repeatSenders: parseInt(document.getElementById('spamRepeatSenders').value, 10) || 0,
+            action: document.getElementById('spamAction').value,
+            report: document.getElementById('spamReport').checked
+          },
+          reengagement: {
+            enabled: document.getElementById('reengageEnabled').checked,
+            afterDays: parseInt(document.getElementById('reengageAfterDays').value, 10) || 0,
+            message: document.getElementById('reengageMessage').value.trim()
+          }
+        })
       });
       const data = await res.json();
-      const st = document.getElementById('status');
       if (res.ok) {
+        renderScheduleStatus(data.scheduleStatus);
+        variants = data.experiment.variants;
+        renderVariants();
+        loadExperiment();
+        loadHistory();
+        document.getElementById('changeNote').value = '';
         st.textContent = 'Saved.';
         st.className = 'status success';
         setTimeout(() => st.textContent = '', 2000);
@@ -664,6 +3223,841 @@ function getAdminPageHtml(baseUrl: string): string {
       }
     });
 
+    let rules = [];
+
+    function ruleButton(label, onClick) {
+      const b = document.createElement('button');
+      b.className = 'secondary';
+      b.textContent = label;
+      b.addEventListener('click', onClick);
+      return b;
+    }
+
+    function renderRules() {
+      const list = document.getElementById('rulesList');
+      list.innerHTML = '';
+      if (!rules.length) {
+        list.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No rules — everyone gets the auto-reply message.</p>';
+        return;
+      }
+      rules.forEach((rule, i) => {
+        const row = document.createElement('div');
+        row.className = 'rule';
+        const top = document.createElement('div');
+        top.className = 'rule-row';
+        const type = document.createElement('select');
+        ['keyword', 'phrase', 'regex'].forEach((t) => {
+          const opt = document.createElement('option');
+          opt.value = t;
+          opt.textContent = t;
+          type.appendChild(opt);
+        });
+        type.value = rule.matchType;
+        type.addEventListener('change', () => { rule.matchType = type.value; });
+        const pattern = document.createElement('input');
+        pattern.type = 'text';
+        pattern.placeholder = 'price, pricing, cost';
+        pattern.value = rule.pattern || '';
+        pattern.addEventListener('input', () => { rule.pattern = pattern.value; });
+        top.append(type, pattern);
+        const reply = document.createElement('textarea');
+        reply.maxLength = 1000;
+        reply.placeholder = 'Reply sent when this rule matches';
+        reply.value = rule.reply || '';
+        reply.addEventListener('input', () => { rule.reply = reply.value; });
+        const bottom = document.createElement('div');
+        bottom.className = 'rule-row';
+        bottom.style.marginTop = '0.5rem';
+        const enabled = document.createElement('label');
+        const enabledBox = document.createElement('input');
+        enabledBox.type = 'checkbox';
+        enabledBox.checked = rule.enabled !== false;
+        enabledBox.addEventListener('change', () => { rule.enabled = enabledBox.checked; });
+        enabled.append(enabledBox, 'Enabled');
+        const cs = document.createElement('label');
+        const csBox = document.createElement('input');
+        csBox.type = 'checkbox';
+        csBox.checked = !!rule.caseSensitive;
+        csBox.addEventListener('change', () => { rule.caseSensitive = csBox.checked; });
+        cs.append(csBox, 'Case-sensitive');
+        bottom.append(
+          enabled,
+          cs,
+          ruleButton('↑', () => { if (i > 0) { rules.splice(i - 1, 0, rules.splice(i, 1)[0]); renderRules(); } }),
+          ruleButton('↓', () => { if (i < rules.length - 1) { rules.splice(i + 1, 0, rules.splice(i, 1)[0]); renderRules(); } }),
+          ruleButton('Remove', () => { rules.splice(i, 1); renderRules(); })
+        );
+        row.append(top, reply, bottom);
+        list.appendChild(row);
+      });
+    }
+
+    async function loadRules() {
+      const res = await fetch(adminUrl + '/api/rules');
+      if (!res.ok) return;
+      const data = await res.json();
+      rules = data.rules || [];
+      renderRules();
+    }
+
+    document.getElementById('addRuleBtn').addEventListener('click', () => {
+      rules.push({ matchType: 'keyword', pattern: '', reply: '', enabled: true, caseSensitive: false });
+      renderRules();
+    });
+
+    document.getElementById('saveRulesBtn').addEventListener('click', async () => {
+      const st = document.getElementById('rulesStatus');
+      const res = await fetch(adminUrl + '/api/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        rules = data.rules;
+        renderRules();
+        loadHistory();
+        st.textContent = 'Rules saved.';
+        st.className = 'status success';
+        setTimeout(() => st.textContent = '', 2000);
+      } else {
+        st.textContent = data.error || 'Save failed';
+        st.className = 'status';
+      }
+    });
+
+    async function loadAccounts() {
+      const res = await fetch(adminUrl + '/api/accounts');
+      if (!res.ok) return;
+      const data = await res.json();
+      const select = document.getElementById('accountSelect');
+      select.innerHTML = '';
+      data.accounts.forEach((a) => {
+        const opt = document.createElement('option');
+        opt.value = a.id;
+        opt.textContent = '@' + a.handle + (a.isDefault ? ' (default)' : '');
+        select.appendChild(opt);
+      });
+      select.value = data.current;
+      const current = data.accounts.find((a) => a.id === data.current);
+      document.getElementById('removeAccountBtn').style.display = current && !current.isDefault ? '' : 'none';
+      document.getElementById('addAccountForm').style.display = data.canAdd ? '' : 'none';
+      if (!data.canAdd) {
+        document.getElementById('accountStatus').textContent = 'Set the ACCOUNTS_ENCRYPTION_KEY secret to add more accounts.';
+      }
+    }
+
+    document.getElementById('accountSelect').addEventListener('change', async function() {
+      const res = await fetch(adminUrl + '/api/accounts/select', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: this.value })
+      });
+      if (res.ok) window.location.reload();
+    });
+
+    document.getElementById('addAccountBtn').addEventListener('click', async () => {
+      const st = document.getElementById('accountStatus');
+      st.textContent = 'Checking the app password…';
+      const res = await fetch(adminUrl + '/api/accounts/add', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          handle: document.getElementById('newAccountHandle').value,
+          appPassword: document.getElementById('newAccountPassword').value,
+          serviceUrl: document.getElementById('newAccountService').value
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) { st.textContent = data.error || 'Could not add the account'; return; }
+      document.getElementById('newAccountPassword').value = '';
+      await fetch(adminUrl + '/api/accounts/select', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: data.account.id })
+      });
+      window.location.reload();
+    });
+
+    document.getElementById('removeAccountBtn').addEventListener('click', async () => {
+      const select = document.getElementById('accountSelect');
+      const label = select.options[select.selectedIndex].textContent;
+      if (!confirm('Remove ' + label + '? Its settings, replied users and logs are deleted.')) return;
+      const st = document.getElementById('accountStatus');
+      for (;;) {
+        const res = await fetch(adminUrl + '/api/accounts/remove', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: select.value })
+        });
+        const data = await res.json();
+        if (!res.ok) { st.textContent = data.error || 'Remove failed'; return; }
+        if (data.done) break;
+        st.textContent = 'Deleting data…';
+      }
+      window.location.reload();
+    });
+
+    const webhookEvents = ${JSON.stringify(WEBHOOK_EVENT_TYPES)};
+    let webhooks = [];
+
+    function renderWebhooks() {
+      const list = document.getElementById('webhooksList');
+      list.innerHTML = '';
+      if (!webhooks.length) {
+        list.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No webhooks.</p>';
+        return;
+      }
+      webhooks.forEach((w, i) => {
+        const row = document.createElement('div');
+        row.className = 'rule';
+        const top = document.createElement('div');
+        top.className = 'rule-row';
+        const url = document.createElement('input');
+        url.type = 'text';
+        url.placeholder = 'https://example.com/bluesky-webhook';
+        url.value = w.url || '';
+        url.addEventListener('input', () => { w.url = url.value; });
+        const desc = document.createElement('input');
+        desc.type = 'text';
+        desc.placeholder = 'Description (optional)';
+        desc.value = w.description || '';
+        desc.addEventListener('input', () => { w.description = desc.value; });
+        top.append(url, desc);
+        const events = document.createElement('div');
+        events.className = 'rule-row';
+        webhookEvents.forEach((ev) => {
+          const label = document.createElement('label');
+          const box = document.createElement('input');
+          box.type = 'checkbox';
+          box.checked = w.events.includes(ev);
+          box.addEventListener('change', () => {
+            w.events = box.checked ? w.events.concat(ev) : w.events.filter((e) => e !== ev);
+          });
+          label.append(box, ev);
+          events.appendChild(label);
+        });
+        const bottom = document.createElement('div');
+        bottom.className = 'rule-row';
+        const enabled = document.createElement('label');
+        const enabledBox = document.createElement('input');
+        enabledBox.type = 'checkbox';
+        enabledBox.checked = w.enabled !== false;
+        enabledBox.addEventListener('change', () => { w.enabled = enabledBox.checked; });
+        enabled.append(enabledBox, 'Enabled');
+        const secret = document.createElement('code');
+        secret.style.fontSize = '0.75rem';
+        secret.style.wordBreak = 'break-all';
+        secret.textContent = w.secret ? 'Secret: ' + w.secret : 'Secret is generated on save';
+        bottom.append(enabled, ruleButton('Remove', () => { webhooks.splice(i, 1); renderWebhooks(); }), secret);
+        row.append(top, events, bottom);
+        list.appendChild(row);
+      });
+    }
+
+    async function loadWebhooks() {
+      const res = await fetch(adminUrl + '/api/webhooks');
+      if (!res.ok) return;
+      const data = await res.json();
+      webhooks = data.webhooks || [];
+      renderWebhooks();
+    }
+
+    async function loadDeliveries() {
+      const res = await fetch(adminUrl + '/api/webhooks/deliveries');
+      if (!res.ok) return;
+      const data = await res.json();
+      const wrap = document.getElementById('deliveriesTable');
+      wrap.innerHTML = '';
+      if (!data.deliveries.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No deliveries yet.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>Event</th><th>URL</th><th>Status</th><th>Attempts</th><th>Last attempt</th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.deliveries.slice(0, 50).forEach((d) => {
+        const tr = document.createElement('tr');
+        const status = d.status === 'pending' && d.nextAttemptAt
+          ? 'retrying at ' + new Date(d.nextAttemptAt).toLocaleTimeString()
+          : d.status;
+        const cells = [
+          d.eventType,
+          d.url,
+          status + (d.lastError ? ' (' + d.lastError + ')' : ''),
+          String(d.attempts),
+          d.lastAttemptAt ? new Date(d.lastAttemptAt).toLocaleString() : '—'
+        ];
+        cells.forEach((text) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          td.style.wordBreak = 'break-all';
+          tr.appendChild(td);
+        });
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    document.getElementById('addWebhookBtn').addEventListener('click', () => {
+      webhooks.push({ url: '', events: webhookEvents.slice(), enabled: true });
+      renderWebhooks();
+    });
+
+    document.getElementById('saveWebhooksBtn').addEventListener('click', async () => {
+      const st = document.getElementById('webhooksStatus');
+      const res = await fetch(adminUrl + '/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ webhooks })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        webhooks = data.webhooks;
+        renderWebhooks();
+        st.textContent = 'Webhooks saved.';
+        st.className = 'status success';
+        setTimeout(() => st.textContent = '', 2000);
+      } else {
+        st.textContent = data.error || 'Save failed';
+        st.className = 'status';
+      }
+    });
+
+    document.getElementById('refreshDeliveriesBtn').addEventListener('click', loadDeliveries);
+
+    const endpointLabels = { auth: 'Login / session refresh', chatRead: 'Reading DMs', chatWrite: 'Sending DMs', appView: 'Profiles & posts' };
+
+    async function loadRateLimits() {
+      const res = await fetch(adminUrl + '/api/rate-limits');
+      if (!res.ok) return;
+      const data = await res.json();
+      const status = document.getElementById('rateLimitStatus');
+      let text = data.paused
+        ? 'Paused after a rate limit until ' + new Date(data.pausedUntil).toLocaleString() + ' (' + data.strikes + ' in a row).'
+        : 'Running. Next run may send up to ' + data.caps.replies + ' messages, check ' + data.caps.historyChecks + ' conversations and look up ' + data.caps.profileLookups + ' profiles.';
+      if (data.lastLimited) text += ' Last rate limit: ' + new Date(data.lastLimited.at).toLocaleString() + '.';
+      status.textContent = text;
+      const wrap = document.getElementById('rateLimitTable');
+      wrap.innerHTML = '';
+      const now = Date.now();
+      const low = Object.keys(data.budgets).filter((k) => new Date(data.budgets[k].resetAt).getTime() > now);
+      if (!low.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">No budgets running low.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>Calls</th><th>Remaining</th><th>Resets</th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      low.forEach((k) => {
+        const b = data.budgets[k];
+        const tr = document.createElement('tr');
+        [endpointLabels[k] || k, b.limit ? b.remaining + ' / ' + b.limit : String(b.remaining), new Date(b.resetAt).toLocaleTimeString()].forEach((t) => {
+          const td = document.createElement('td');
+          td.textContent = t;
+          tr.appendChild(td);
+        });
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    document.getElementById('refreshRateLimitsBtn').addEventListener('click', loadRateLimits);
+
+    function moderationOutcome(e) {
+      if (e.undoneAt) return 'Not spam (' + new Date(e.undoneAt).toLocaleDateString() + ')';
+      if (e.dryRun) return 'Dry run';
+      const done = [];
+      if (e.left) done.push('left');
+      else if (e.muted) done.push('muted');
+      if (e.reported) done.push('reported');
+      return done.length ? done.join(', ') : 'No reply';
+    }
+
+    async function loadModeration() {
+      const res = await fetch(adminUrl + '/api/moderation');
+      if (!res.ok) return;
+      const data = await res.json();
+      const wrap = document.getElementById('moderationTable');
+      wrap.innerHTML = '';
+      if (!data.entries.length) {
+        wrap.innerHTML = '<p class="sub" style="margin:0; font-size: 0.85rem;">Nothing flagged.</p>';
+        return;
+      }
+      const table = document.createElement('table');
+      table.className = 'data-table';
+      table.innerHTML = '<thead><tr><th>When</th><th>From</th><th>Message</th><th>Why</th><th>Action</th><th></th></tr></thead>';
+      const tbody = document.createElement('tbody');
+      data.entries.forEach((e) => {
+        const tr = document.createElement('tr');
+        [
+          new Date(e.flaggedAt).toLocaleString(),
+          e.handle ? '@' + e.handle : e.did,
+          e.text,
+          e.signals.join('; ') + ' (score ' + e.score + ')',
+          moderationOutcome(e)
+        ].forEach((t) => {
+          const td = document.createElement('td');
+          td.textContent = t;
+          tr.appendChild(td);
+        });
+        const td = document.createElement('td');
+        if (!e.undoneAt && !e.left) {
+          const btn = document.createElement('button');
+          btn.className = 'secondary';
+          btn.textContent = 'Not spam';
+          btn.addEventListener('click', async () => {
+            btn.disabled = true;
+            const r = await fetch(adminUrl + '/api/moderation/undo', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ id: e.id })
+            });
+            if (r.ok) {
+              loadModeration();
+            } else {
+              btn.disabled = false;
+              alert((await r.json()).error || 'Undo failed');
+            }
+          });
+          td.appendChild(btn);
+        }
+        tr.appendChild(td);
+        tbody.appendChild(tr);
+      });
+      table.appendChild(tbody);
+      wrap.appendChild(table);
+    }
+
+    document.getElementById('refreshModerationBtn').addEventListener('click', loadModeration);
+
+    async function loadSync() {
+      const res = await fetch(adminUrl + '/api/sync');
+      if (!res.ok) return;
+      const data = await res.json();
+      const st = document.getElementById('syncStatus');
+      st.className = 'status';
+      if (data.mode === 'fullScan') {
+        st.textContent = data.scanStartedAt
+          ? 'Full scan in progress (started ' + new Date(data.scanStartedAt).toLocaleString() + ')'
+          : 'A full scan starts on the next run';
+      } else {
+        st.textContent = (data.lastFullScanAt ? 'Last full scan ' + new Date(data.lastFullScanAt).toLocaleString() : '')
+          + (data.pending ? (data.lastFullScanAt ? ' · ' : '') + data.pending + ' conversation(s) waiting for the next run' : '');
+      }
+    }
+
+    document.getElementById('resyncBtn').addEventListener('click', async () => {
+      if (!confirm('Go through all conversations again? Nobody gets a second auto-reply; this only catches DMs that were missed.')) return;
+      const res = await fetch(adminUrl + '/api/sync/resync', { method: 'POST' });
+      if (res.ok) loadSync();
+    });
+
+    load();
+    loadRules();
+    loadSequences();
+    loadAccessLists();
+    loadPreview();
+    loadWebhooks();
+    loadDeliveries();
+    loadRateLimits();
+    loadSync();
+    loadModeration();
+    loadExperiment();
+    loadHistory();
+    loadAccounts();
+  </script>
+</body>
+</html>`;
+}
+
+function getLedgerPageHtml(baseUrl: string): string {
+  const adminUrl = `${baseUrl}/admin`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Replied users — Bluesky DM Reply Bot</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 1rem; }
+    h1 { font-size: 1.25rem; margin-bottom: 0.5rem; }
+    .sub { font-size: 0.9rem; color: #666; margin-bottom: 1.5rem; }
+    .actions { display: flex; gap: 0.5rem; margin-bottom: 1rem; align-items: center; flex-wrap: wrap; }
+    input[type="search"] { flex: 1; padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px; }
+    button { padding: 0.5rem 1rem; background: #0085ff; color: white; border: none; border-radius: 4px; cursor: pointer; }
+    button:hover { background: #0070dd; }
+    button.secondary { background: #eee; color: #333; }
+    button.secondary:hover { background: #ddd; }
+    button.danger { background: #c00; }
+    button.danger:hover { background: #a00; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #eee; vertical-align: top; }
+    th { font-weight: 500; color: #666; }
+    td.msg { max-width: 320px; white-space: pre-wrap; word-break: break-word; color: #444; }
+    .status { font-size: 0.85rem; }
+    a { color: #0085ff; }
+  </style>
+</head>
+<body>
+  <h1>Replied users</h1>
+  <p class="sub">Everyone who received the auto-reply. Reset someone to let them get it again the next time they DM you. <a href="${adminUrl}">← Back to settings</a></p>
+  <div class="actions">
+    <input type="search" id="q" placeholder="Search by handle or DID">
+    <button id="searchBtn">Search</button>
+    <button id="clearAllBtn" class="danger">Reset everyone</button>
+  </div>
+  <div id="status" class="status"></div>
+  <table>
+    <thead><tr><th>User</th><th>Replied</th><th>Type</th><th>Message</th><th></th></tr></thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <div class="actions" style="margin-top: 1rem;">
+    <button id="moreBtn" class="secondary" style="display:none">Load more</button>
+  </div>
+  <script>
+    const adminUrl = '${adminUrl}';
+    let cursor = null;
+
+    function addRows(entries) {
+      const tbody = document.getElementById('rows');
+      entries.forEach((e) => {
+        const tr = document.createElement('tr');
+        const cells = [
+          e.handle ? '@' + e.handle + '\\n' + e.did : e.did,
+          e.repliedAt ? new Date(e.repliedAt).toLocaleString() : 'unknown',
+          e.resetAt ? 'reset — will get it again' : (e.kind || '—'),
+          e.message || ''
+        ];
+        cells.forEach((text, i) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          if (i === 0 || i === 3) td.className = 'msg';
+          tr.appendChild(td);
+        });
+        const action = document.createElement('td');
+        const btn = document.createElement('button');
+        btn.className = 'secondary';
+        btn.textContent = 'Reset';
+        btn.addEventListener('click', async () => {
+          const res = await fetch(adminUrl + '/api/ledger/reset', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ did: e.did })
+          });
+          if (res.ok) {
+            tr.children[2].textContent = 'reset — will get it again';
+            btn.remove();
+          }
+        });
+        if (!e.resetAt) action.appendChild(btn);
+        tr.appendChild(action);
+        tbody.appendChild(tr);
+      });
+    }
+
+    async function load(reset) {
+      const q = document.getElementById('q').value.trim();
+      if (reset) {
+        document.getElementById('rows').innerHTML = '';
+        cursor = null;
+      }
+      const params = new URLSearchParams();
+      if (q) params.set('q', q);
+      else if (cursor) params.set('cursor', cursor);
+      const res = await fetch(adminUrl + '/api/ledger?' + params);
+      if (res.status === 401) { window.location.reload(); return; }
+      const data = await res.json();
+      addRows(data.entries);
+      cursor = data.cursor || null;
+      document.getElementById('moreBtn').style.display = cursor && !q ? '' : 'none';
+      const count = document.getElementById('rows').children.length;
+      document.getElementById('status').textContent = count ? '' : (q ? 'No matches.' : 'Nobody has received the auto-reply yet.');
+    }
+
+    document.getElementById('searchBtn').addEventListener('click', () => load(true));
+    document.getElementById('q').addEventListener('keydown', (e) => { if (e.key === 'Enter') load(true); });
+    document.getElementById('moreBtn').addEventListener('click', () => load(false));
+
+    document.getElementById('clearAllBtn').addEventListener('click', async () => {
+      if (!confirm('Reset everyone? Every user will get the auto-reply again on their next DM.')) return;
+      const st = document.getElementById('status');
+      let total = 0;
+      let resetCursor;
+      for (;;) {
+        const res = await fetch(adminUrl + '/api/ledger/reset-all', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cursor: resetCursor })
+        });
+        if (!res.ok) { st.textContent = 'Reset failed after ' + total + ' users'; return; }
+        const data = await res.json();
+        total += data.reset;
+        resetCursor = data.cursor;
+        st.textContent = 'Reset ' + total + ' users…';
+        if (data.done) break;
+      }
+      st.textContent = 'Reset ' + total + ' users.';
+      load(true);
+    });
+
+    load(true);
+  </script>
+</body>
+</html>`;
+}
+
+function getAnalyticsPageHtml(baseUrl: string): string {
+  const adminUrl = `${baseUrl}/admin`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Analytics — Bluesky DM Reply Bot</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 1rem; }
+    h1 { font-size: 1.25rem; margin-bottom: 0.5rem; }
+    h2 { font-size: 1rem; margin: 1.5rem 0 0.5rem 0; }
+    .sub { font-size: 0.9rem; color: #666; margin-bottom: 1.5rem; }
+    .actions { display: flex; gap: 0.5rem; margin-bottom: 1rem; align-items: center; flex-wrap: wrap; }
+    select { padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px; }
+    .totals { display: flex; gap: 1.5rem; flex-wrap: wrap; margin-bottom: 0.5rem; }
+    .total b { display: block; font-size: 1.4rem; }
+    .total span { font-size: 0.8rem; color: #666; }
+    .chart { width: 100%; height: 120px; display: block; }
+    .chart rect:hover { opacity: 0.7; }
+    .axis { display: flex; justify-content: space-between; font-size: 0.75rem; color: #666; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #eee; }
+    th { font-weight: 500; color: #666; }
+    a { color: #0085ff; }
+  </style>
+</head>
+<body>
+  <h1>Analytics</h1>
+  <p class="sub">Daily counts (UTC days) from the cron runs, kept for 90 days. <a href="${adminUrl}">← Back to settings</a></p>
+  <div class="actions">
+    <select id="range">
+      <option value="7">Last 7 days</option>
+      <option value="30" selected>Last 30 days</option>
+      <option value="90">Last 90 days</option>
+    </select>
+    <a id="csvLink" href="#">Download CSV</a>
+    <a id="jsonLink" href="#">JSON</a>
+  </div>
+  <div id="totals" class="totals"></div>
+  <div id="charts"></div>
+  <h2>Skipped DMs by reason</h2>
+  <table>
+    <thead><tr><th>Reason</th><th>Count</th></tr></thead>
+    <tbody id="skipRows"></tbody>
+  </table>
+  <script>
+    const adminUrl = '${adminUrl}';
+    const skipLabels = ${JSON.stringify(SKIP_LABELS)};
+    const series = [
+      { key: 'firstDms', label: 'First-time DMs', color: '#0085ff' },
+      { key: 'replies', label: 'Auto-replies sent', color: '#2a9d3a' },
+      { key: 'followUps', label: 'Follow-ups sent', color: '#7b61ff' },
+      { key: 'skipped', label: 'Skipped DMs', color: '#999' },
+      { key: 'failures', label: 'Failed sends', color: '#c00' },
+      { key: 'rateLimited', label: 'Rate-limit hits', color: '#e08a00' }
+    ];
+    const svgNs = 'http://www.w3.org/2000/svg';
+
+    function skippedTotal(day) {
+      return Object.values(day.skips).reduce((a, b) => a + b, 0);
+    }
+
+    function barChart(days, s) {
+      const values = days.map((d) => (s.key === 'skipped' ? skippedTotal(d) : d[s.key]));
+      const max = Math.max(1, ...values);
+      const wrap = document.createElement('div');
+      const title = document.createElement('h2');
+      title.textContent = s.label;
+      const svg = document.createElementNS(svgNs, 'svg');
+      svg.setAttribute('class', 'chart');
+      svg.setAttribute('viewBox', '0 0 ' + days.length * 10 + ' 100');
+      svg.setAttribute('preserveAspectRatio', 'none');
+      values.forEach((v, i) => {
+        const rect = document.createElementNS(svgNs, 'rect');
+        const h = (v / max) * 100;
+        rect.setAttribute('x', String(i * 10 + 1));
+        rect.setAttribute('y', String(100 - h));
+        rect.setAttribute('width', '8');
+        rect.setAttribute('height', String(h));
+        rect.setAttribute('fill', s.color);
+        const tip = document.createElementNS(svgNs, 'title');
+        tip.textContent = days[i].date + ': ' + v;
+        rect.appendChild(tip);
+        svg.appendChild(rect);
+      });
+      const axis = document.createElement('div');
+      axis.className = 'axis';
+      axis.innerHTML = '<span></span><span></span>';
+      axis.children[0].textContent = days[0].date;
+      axis.children[1].textContent = days[days.length - 1].date + ' · max ' + Math.max(...values);
+      wrap.append(title, svg, axis);
+      return wrap;
+    }
+
+    async function load() {
+      const range = document.getElementById('range').value;
+      document.getElementById('csvLink').href = adminUrl + '/api/analytics?days=' + range + '&format=csv';
+      document.getElementById('jsonLink').href = adminUrl + '/api/analytics?days=' + range + '&format=json';
+      const res = await fetch(adminUrl + '/api/analytics?days=' + range);
+      if (res.status === 401) { window.location.reload(); return; }
+      const data = await res.json();
+      const days = data.days;
+
+      const totals = document.getElementById('totals');
+      totals.innerHTML = '';
+      series.forEach((s) => {
+        const sum = days.reduce((acc, d) => acc + (s.key === 'skipped' ? skippedTotal(d) : d[s.key]), 0);
+        const el = document.createElement('div');
+        el.className = 'total';
+        el.innerHTML = '<b></b><span></span>';
+        el.children[0].textContent = String(sum);
+        el.children[1].textContent = s.label;
+        totals.appendChild(el);
+      });
+
+      const charts = document.getElementById('charts');
+      charts.innerHTML = '';
+      series.forEach((s) => charts.appendChild(barChart(days, s)));
+
+      const byReason = {};
+      days.forEach((d) => Object.keys(d.skips).forEach((r) => { byReason[r] = (byReason[r] || 0) + d.skips[r]; }));
+      const tbody = document.getElementById('skipRows');
+      tbody.innerHTML = '';
+      const reasons = Object.keys(byReason).sort((a, b) => byReason[b] - byReason[a]);
+      if (!reasons.length) {
+        tbody.innerHTML = '<tr><td colspan="2">Nothing skipped in this range.</td></tr>';
+      }
+      reasons.forEach((r) => {
+        const tr = document.createElement('tr');
+        [skipLabels[r] || r, String(byReason[r])].forEach((t) => {
+          const td = document.createElement('td');
+          td.textContent = t;
+          tr.appendChild(td);
+        });
+        tbody.appendChild(tr);
+      });
+    }
+
+    document.getElementById('range').addEventListener('change', load);
+    load();
+  </script>
+</body>
+</html>`;
+}
+
+function getActivityPageHtml(baseUrl: string): string {
+  const adminUrl = `${baseUrl}/admin`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Activity — Bluesky DM Reply Bot</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 1rem; }
+    h1 { font-size: 1.25rem; margin-bottom: 0.5rem; }
+    .sub { font-size: 0.9rem; color: #666; margin-bottom: 1.5rem; }
+    .actions { display: flex; gap: 0.5rem; margin-bottom: 1rem; align-items: center; flex-wrap: wrap; }
+    input[type="search"] { flex: 1; padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px; }
+    select { padding: 0.5rem; border: 1px solid #ccc; border-radius: 4px; }
+    button { padding: 0.5rem 1rem; background: #0085ff; color: white; border: none; border-radius: 4px; cursor: pointer; }
+    button:hover { background: #0070dd; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #eee; vertical-align: top; }
+    th { font-weight: 500; color: #666; }
+    td.detail { white-space: pre-wrap; word-break: break-word; color: #444; }
+    .outcome-error, .outcome-rateLimited { color: #c00; }
+    .status { font-size: 0.85rem; }
+    a { color: #0085ff; }
+  </style>
+</head>
+<body>
+  <h1>Activity</h1>
+  <p class="sub">One entry per run (every minute while the bot is on), kept for 7 days. Runs identical to the one before are not stored again. <a href="${adminUrl}">← Back to settings</a></p>
+  <div class="actions">
+    <select id="filter">
+      <option value="all">All runs</option>
+      <option value="replies">Runs that sent messages</option>
+      <option value="skips">Runs with skipped DMs</option>
+      <option value="errors">Errors &amp; rate limits</option>
+    </select>
+    <input type="search" id="q" placeholder="Filter by handle or DID">
+    <button id="searchBtn">Apply</button>
+  </div>
+  <div id="status" class="status"></div>
+  <table>
+    <thead><tr><th>Run</th><th>Result</th><th>Scanned</th><th>Details</th></tr></thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <script>
+    const adminUrl = '${adminUrl}';
+    const skipLabels = ${JSON.stringify(SKIP_LABELS)};
+
+    function details(r) {
+      const lines = [];
+      if (r.note) lines.push(r.note);
+      if (r.dryRun) lines.push('Dry run');
+      const kindLabel = (x) => x.kind + (x.lang ? ' (' + x.lang + ')' : '');
+      r.replies.forEach((x) => lines.push((r.dryRun ? 'Would send ' : 'Sent ') + kindLabel(x) + ' → ' + (x.handle ? '@' + x.handle : x.did)));
+      (r.scheduled || []).forEach((x) => lines.push('Scheduled ' + kindLabel(x) + ' → ' + (x.handle ? '@' + x.handle : x.did)));
+      if (r.followUpsSent) lines.push('Sent ' + r.followUpsSent + ' follow-up(s)');
+      Object.keys(r.skipCounts).forEach((reason) => {
+        const who = r.skips.filter((s) => s.reason === reason).map((s) => s.did + (s.detail ? ' (' + s.detail + ')' : ''));
+        lines.push('Skipped ' + r.skipCounts[reason] + ' — ' + (skipLabels[reason] || reason) + (who.length ? ': ' + who.join(', ') : ''));
+      });
+      r.errors.forEach((e) => lines.push('Error: ' + e));
+      return lines.join('\\n');
+    }
+
+    async function load() {
+      const params = new URLSearchParams({ filter: document.getElementById('filter').value });
+      const q = document.getElementById('q').value.trim();
+      if (q) params.set('q', q);
+      const res = await fetch(adminUrl + '/api/activity?' + params);
+      if (res.status === 401) { window.location.reload(); return; }
+      const data = await res.json();
+      const tbody = document.getElementById('rows');
+      tbody.innerHTML = '';
+      data.runs.forEach((r) => {
+        const tr = document.createElement('tr');
+        const secs = r.finishedAt ? Math.round((new Date(r.finishedAt) - new Date(r.startedAt)) / 1000) : null;
+        const cells = [
+          new Date(r.startedAt).toLocaleString() + (secs !== null ? '\\n' + secs + 's' : '') +
+            (r.repeats ? '\\nthen ' + r.repeats + ' more identical run' + (r.repeats === 1 ? '' : 's') + ' until ' + new Date(r.lastRepeatAt).toLocaleString() : ''),
+          r.outcome === 'rateLimited' ? 'rate limited' : r.outcome,
+          r.convosScanned + ' convos\\n' + r.historyChecks + ' history checks\\n' + r.profileLookups + ' profile lookups',
+          details(r)
+        ];
+        cells.forEach((text, i) => {
+          const td = document.createElement('td');
+          td.textContent = text;
+          td.className = i === 1 ? 'outcome-' + r.outcome : 'detail';
+          tr.appendChild(td);
+        });
+        tbody.appendChild(tr);
+      });
+      document.getElementById('status').textContent = data.runs.length ? '' : 'No matching runs.';
+    }
+
+    document.getElementById('searchBtn').addEventListener('click', load);
+    document.getElementById('filter').addEventListener('change', load);
+    document.getElementById('q').addEventListener('keydown', (e) => { if (e.key === 'Enter') load(); });
+
     load();
   </script>
 </body>
@@ -0,0 +1,95 @@
+/**
+ * Localized welcome messages: per-language variants of the auto-reply, picked by the
+ * language of the sender's DM. Detection is local (writing system, then common words);
+ * when the DM is too short to tell, the languages tagged on the sender's recent posts are used.
+ */
+
+import { WelcomeLanguage } from './types';
+import { validateTemplate } from './templates';
+
+export const WELCOME_LANGUAGES: WelcomeLanguage[] = ['en', 'es', 'pt', 'ja'];
+
+export const LANGUAGE_NAMES: Record<WelcomeLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  ja: 'Japanese',
+};
+
+/** Hiragana, katakana and half-width katakana */
+const KANA_RE = /[\u3040-\u30ff\u31f0-\u31ff\uff66-\uff9f]/;
+
+/** Frequent words and greetings; a DM is often just "hola" or "obrigado!" */
+const STOPWORDS: Record<'en' | 'es' | 'pt', string[]> = {
+  en: [
+    'the', 'and', 'you', 'your', 'is', 'are', 'to', 'of', 'for', 'with', 'this', 'that', 'what', 'how', 'can',
+    'hi', 'hello', 'hey', 'thanks', 'thank', 'please', 'i', 'my', 'me', 'it', 'have', 'do', 'want', 'would', 'about',
+  ],
+  es: [
+    'el', 'la', 'los', 'las', 'y', 'que', 'es', 'por', 'para', 'con', 'una', 'un', 'del', 'al', 'como', 'pero',
+    'hola', 'gracias', 'buenos', 'buenas', 'días', 'quiero', 'tengo', 'puedo', 'estoy', 'usted', 'yo', 'mi', 'muy', 'sí',
+  ],
+  pt: [
+    'o', 'os', 'as', 'e', 'que', 'é', 'não', 'para', 'com', 'uma', 'um', 'do', 'da', 'dos', 'das', 'em', 'no', 'na',
+    'oi', 'olá', 'obrigado', 'obrigada', 'bom', 'dia', 'tudo', 'bem', 'quero', 'tenho', 'posso', 'estou', 'você', 'eu',
+  ],
+};
+
+/** Letters that only one of the Iberian languages uses */
+const SPANISH_ONLY_RE = /[ñ¿¡]/;
+const PORTUGUESE_ONLY_RE = /[ãõç]/;
+
+/**
+ * Guess the language of a message, or null if there isn't enough to go on.
+ * Japanese is recognized by kana (kanji alone could be Chinese); English, Spanish and
+ * Portuguese by common words, with letters like ñ / ã as tie-breakers.
+ */
+export function detectLanguage(text: string): WelcomeLanguage | null {
+  if (KANA_RE.test(text)) return 'ja';
+  const lower = text.toLowerCase();
+  const words = lower.match(/\p{L}+/gu) ?? [];
+  const scores = { en: 0, es: 0, pt: 0 };
+  for (const word of words) {
+    for (const lang of ['en', 'es', 'pt'] as const) {
+      if (STOPWORDS[lang].includes(word)) scores[lang]++;
+    }
+  }
+  if (SPANISH_ONLY_RE.test(lower)) scores.es += 2;
+  if (PORTUGUESE_ONLY_RE.test(lower)) scores.pt += 2;
+  const ranked = (Object.entries(scores) as Array<['en' | 'es' | 'pt', number]>).sort((a, b) => b[1] - a[1]);
+  if (ranked[0][1] === 0 || ranked[0][1] === ranked[1][1]) return null;
+  return ranked[0][0];
+}
+
+/** First supported language among BCP-47 tags such as "pt-BR" (from post `langs`). */
+export function languageFromTags(tags: string[]): WelcomeLanguage | null {
+  for (const tag of tags) {
+    const primary = tag.toLowerCase().split('-')[0] as WelcomeLanguage;
+    if (WELCOME_LANGUAGES.includes(primary)) return primary;
+  }
+  return null;
+}
+
+/**
+ * Validate and normalize the per-language welcome messages from the admin API.
+ * Empty variants are dropped; the default welcome message covers those languages.
+ */
+export function validateWelcomeMessages(
+  input: unknown
+): { messages: Partial<Record<WelcomeLanguage, string>> } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'welcomeMessages must be an object' };
+  const messages: Partial<Record<WelcomeLanguage, string>> = {};
+  for (const [lang, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!WELCOME_LANGUAGES.includes(lang as WelcomeLanguage)) {
+      return { error: `Unsupported language: ${lang}. Supported: ${WELCOME_LANGUAGES.join(', ')}` };
+    }
+    const message = String(value ?? '').trim();
+    if (!message) continue;
+    const name = LANGUAGE_NAMES[lang as WelcomeLanguage];
+    if (message.length > 1000) return { error: `${name} welcome message exceeds 1000 characters` };
+    const templateError = validateTemplate(message);
+    if (templateError) return { error: `${name} welcome message: ${templateError}` };
+    messages[lang as WelcomeLanguage] = message;
+  }
+  return { messages };
+}
@@ -0,0 +1,152 @@
+/**
+ * Ledger of users who received an auto-reply: one `replied:<did>` KV key per user.
+ * The value holds the full entry; list metadata holds a short copy so the admin
+ * can browse without reading every key. Older deployments stored the value '1'.
+ * Resetting keeps the entry but sets `resetAt`, which tells the cycle to reply again
+ * even though the convo already has our earlier message in it.
+ */
+
+import { AccountStore } from './types';
+
+const REPLIED_PREFIX = 'replied:';
+const REPLIED_TTL_SEC = 60 * 60 * 24 * 365;
+/** KV rejects expirations less than a minute away */
+const MIN_TTL_SEC = 60;
+/** KV list metadata is limited to 1024 bytes */
+const METADATA_MESSAGE_CHARS = 120;
+const LIST_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 100;
+/** Entries per bulk-reset request (a read and a write each), to stay under the per-request KV operation limit */
+const RESET_BATCH_SIZE = 250;
+
+export type ReplyKind = 'welcome' | 'rule' | 'away' | 'welcomeBack';
+
+export interface LedgerEntry {
+  did: string;
+  handle?: string;
+  /** ISO time the auto-reply was sent; missing for entries from older versions */
+  repliedAt?: string;
+  kind?: ReplyKind;
+  ruleId?: string;
+  /** Text that was sent (truncated in list results) */
+  message?: string;
+  /** Set when an admin reset this user: they get the auto-reply again on their next DM */
+  resetAt?: string;
+  /** A/B test variant of the welcome message they got */
+  variantId?: string;
+  /** When they first wrote back within the A/B test's response window */
+  respondedAt?: string;
+}
+
+function keyFor(did: string): string {
+  return `${REPLIED_PREFIX}${did}`;
+}
+
+export async function getLedgerEntry(kv: AccountStore, did: string): Promise<LedgerEntry | null> {
+  const raw = await kv.get(keyFor(did));
+  if (raw === null) return null;
+  try {
+    const parsed = JSON.parse(raw) as LedgerEntry | number;
+    if (typeof parsed === 'object' && parsed) return parsed;
+  } catch {
+    /* legacy value */
+  }
+  return { did };
+}
+
+/**
+ * True if an auto-reply was recorded for the user after `previous` was read
+ * (guards against overlapping runs replying twice).
+ */
+export async function repliedSince(kv: AccountStore, did: string, previous: LedgerEntry | null): Promise<boolean> {
+  const current = await getLedgerEntry(kv, did);
+  return !!current && !current.resetAt && current.repliedAt !== previous?.repliedAt;
+}
+
+/** `expiration` (epoch seconds) keeps an existing entry's expiry; otherwise it expires in a year. */
+async function putEntry(kv: AccountStore, entry: LedgerEntry, expiration?: number): Promise<void> {
+  const metadata: LedgerEntry = { ...entry };
+  if (metadata.message && metadata.message.length > METADATA_MESSAGE_CHARS) {
+    metadata.message = `${metadata.message.slice(0, METADATA_MESSAGE_CHARS)}…`;
+  }
+  const expiry = expiration
+    ? { expiration: Math.max(expiration, Math.ceil(Date.now() / 1000) + MIN_TTL_SEC) }
+    : { expirationTtl: REPLIED_TTL_SEC };
+  await kv.put(keyFor(entry.did), JSON.stringify(entry), { ...expiry, metadata });
+}
+
+export async function recordReply(kv: AccountStore, entry: LedgerEntry): Promise<void> {
+  await putEntry(kv, entry);
+}
+
+/** Note that the user answered our (A/B tested) welcome message. */
+export async function recordResponse(kv: AccountStore, entry: LedgerEntry, respondedAt: string): Promise<void> {
+  await putEntry(kv, { ...entry, respondedAt });
+}
+
+/** Let one user get the auto-reply again. Returns false if they aren't in the ledger. */
+export async function resetLedgerEntry(kv: AccountStore, did: string): Promise<boolean> {
+  const entry = await getLedgerEntry(kv, did);
+  if (!entry) return false;
+  await putEntry(kv, { ...entry, resetAt: new Date().toISOString() });
+  return true;
+}
+
+function entryFromKey(key: KVNamespaceListKey<LedgerEntry>): LedgerEntry {
+  return key.metadata ?? { did: key.name.slice(REPLIED_PREFIX.length) };
+}
+
+/** One page of the ledger, in key order. */
+export async function listLedger(
+  kv: AccountStore,
+  cursor?: string
+): Promise<{ entries: LedgerEntry[]; cursor?: string }> {
+  const page = await kv.list<LedgerEntry>({ prefix: REPLIED_PREFIX, limit: LIST_PAGE_SIZE, cursor });
+  return {
+    entries: page.keys.map(entryFromKey),
+    cursor: page.list_complete ? undefined : page.cursor,
+  };
+}
+
+/** Find entries whose handle (or DID) contains the query. Scans the whole ledger. */
+export async function searchLedger(kv: AccountStore, query: string): Promise<LedgerEntry[]> {
+  const q = query.trim().replace(/^@/, '').toLowerCase();
+  const results: LedgerEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await kv.list<LedgerEntry>({ prefix: REPLIED_PREFIX, cursor });
+    for (const key of page.keys) {
+      const entry = entryFromKey(key);
+      if (entry.handle?.toLowerCase().includes(q) || entry.did.toLowerCase().includes(q)) {
+        results.push(entry);
+        if (results.length >= MAX_SEARCH_RESULTS) return results;
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return results;
+}
+
+/**
+ * Reset one batch of ledger entries. Call again with the returned cursor until `done` is true.
+ */
+export async function resetLedgerBatch(
+  kv: AccountStore,
+  cursor?: string
+): Promise<{ reset: number; cursor?: string; done: boolean }> {
+  const page = await kv.list<LedgerEntry>({ prefix: REPLIED_PREFIX, limit: RESET_BATCH_SIZE, cursor });
+  const resetAt = new Date().toISOString();
+  // List metadata has a shortened message, so each entry is read in full before it's rewritten
+  const pending = page.keys.filter((key) => !key.metadata?.resetAt);
+  await Promise.all(
+    pending.map(async (key) => {
+      const entry = await getLedgerEntry(kv, key.name.slice(REPLIED_PREFIX.length));
+      if (entry) await putEntry(kv, { ...entry, resetAt }, key.expiration); // Gone if it expired meanwhile
+    })
+  );
+  return {
+    reset: pending.length,
+    cursor: page.list_complete ? undefined : page.cursor,
+    done: page.list_complete,
+  };
+}
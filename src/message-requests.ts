@@ -0,0 +1,29 @@
+/**
+ * DM requests: convos from people we don't follow that haven't been accepted yet.
+ * The request policy decides per audience whether the cycle accepts them, waits for the
+ * account owner to accept them, or mutes / leaves them.
+ */
+
+import { RequestAction, RequestPolicy } from './types';
+
+export const REQUEST_ACTIONS: RequestAction[] = ['accept', 'wait', 'mute', 'leave'];
+
+/** Replying to a request accepts it, so accepting for passing senders matches the old behavior. */
+export function defaultRequestPolicy(): RequestPolicy {
+  return { passing: 'accept', filtered: 'wait' };
+}
+
+/**
+ * Validate and normalize the request policy from the admin API.
+ */
+export function validateRequestPolicy(input: unknown): { policy: RequestPolicy } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'requestPolicy must be an object' };
+  const p = input as Partial<RequestPolicy>;
+  const defaults = defaultRequestPolicy();
+  const passing = p.passing ?? defaults.passing;
+  const filtered = p.filtered ?? defaults.filtered;
+  if (!REQUEST_ACTIONS.includes(passing) || !REQUEST_ACTIONS.includes(filtered)) {
+    return { error: `Request actions must be one of: ${REQUEST_ACTIONS.join(', ')}` };
+  }
+  return { policy: { passing, filtered } };
+}
@@ -0,0 +1,64 @@
+/**
+ * Dry-run preview queue: who the cycle would have replied to, and with what, while
+ * dry run is on. Nothing is sent until the admin approves the queue.
+ */
+
+import { ReplyKind } from './ledger';
+import { AccountStore, WelcomeLanguage } from './types';
+
+const PREVIEW_KEY = 'preview_queue';
+const MAX_QUEUE = 200;
+
+export interface PreviewItem {
+  convoId: string;
+  did: string;
+  handle?: string;
+  kind: ReplyKind;
+  ruleId?: string;
+  /** Rendered message, exactly as it would be sent */
+  message: string;
+  /** Language of a localized welcome message */
+  lang?: WelcomeLanguage;
+  /** A/B test variant of the welcome message */
+  variantId?: string;
+  queuedAt: string;
+}
+
+export async function getPreviewQueue(kv: AccountStore): Promise<PreviewItem[]> {
+  const raw = await kv.get(PREVIEW_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as PreviewItem[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function savePreviewQueue(kv: AccountStore, queue: PreviewItem[]): Promise<void> {
+  if (queue.length === 0) {
+    await kv.delete(PREVIEW_KEY);
+    return;
+  }
+  await kv.put(PREVIEW_KEY, JSON.stringify(queue));
+}
+
+/** True if the queue is full and nothing more should be added this run. */
+export function isPreviewQueueFull(queue: PreviewItem[]): boolean {
+  return queue.length >= MAX_QUEUE;
+}
+
+/** Add or replace the item for this user. */
+export function queuePreview(queue: PreviewItem[], item: PreviewItem): void {
+  const i = queue.findIndex((q) => q.did === item.did);
+  if (i >= 0) queue[i] = item;
+  else queue.push(item);
+}
+
+/** Remove the user's item. Returns false if they weren't queued. */
+export function removeFromPreview(queue: PreviewItem[], did: string): boolean {
+  const i = queue.findIndex((q) => q.did === did);
+  if (i < 0) return false;
+  queue.splice(i, 1);
+  return true;
+}
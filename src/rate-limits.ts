@@ -0,0 +1,128 @@
+/**
+ * Adaptive rate limiting: budgets read from Bluesky's `ratelimit-*` response headers,
+ * per-run caps derived from them, and a circuit breaker that pauses the cron after a 429.
+ * Only budgets running low are persisted, so a healthy account costs no extra KV writes.
+ */
+
+import { AccountStore } from './types';
+
+export type EndpointClass = 'auth' | 'chatRead' | 'chatWrite' | 'appView';
+
+export const ENDPOINT_CLASSES: EndpointClass[] = ['auth', 'chatRead', 'chatWrite', 'appView'];
+
+const RATE_LIMITS_KEY = 'rate_limits';
+/** A budget is kept (and caps the next runs) once less than this fraction of it is left */
+const LOW_BUDGET_FRACTION = 0.5;
+/** Share of a low budget one run may use, leaving the rest for the runs before the reset */
+const RUN_SHARE = 0.5;
+const BACKOFF_BASE_MIN = 1;
+const BACKOFF_MAX_MIN = 60;
+
+export interface EndpointBudget {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface RateLimitState {
+  budgets: Partial<Record<EndpointClass, EndpointBudget>>;
+  /** Consecutive runs that hit a 429; each one doubles the pause */
+  strikes: number;
+  /** Circuit breaker: runs are skipped until this time */
+  pausedUntil?: string;
+  lastLimited?: { endpoint?: EndpointClass; at: string };
+}
+
+/** Budget from `ratelimit-limit` / `ratelimit-remaining` / `ratelimit-reset` (unix seconds), if present. */
+export function parseRateLimitHeaders(headers: Headers): EndpointBudget | null {
+  if (!headers.has('ratelimit-remaining') || !headers.has('ratelimit-reset')) return null;
+  const remaining = Number(headers.get('ratelimit-remaining'));
+  const reset = Number(headers.get('ratelimit-reset'));
+  const limit = Number(headers.get('ratelimit-limit'));
+  if (!Number.isFinite(remaining) || !Number.isFinite(reset) || reset <= 0) return null;
+  return {
+    limit: Number.isFinite(limit) && limit > 0 ? limit : remaining,
+    remaining,
+    resetAt: new Date(reset * 1000).toISOString(),
+  };
+}
+
+export async function getRateLimitState(kv: AccountStore): Promise<RateLimitState> {
+  const raw = await kv.get(RATE_LIMITS_KEY);
+  if (!raw) return { budgets: {}, strikes: 0 };
+  try {
+    const parsed = JSON.parse(raw) as RateLimitState;
+    return {
+      budgets: parsed.budgets ?? {},
+      strikes: parsed.strikes ?? 0,
+      pausedUntil: parsed.pausedUntil,
+      lastLimited: parsed.lastLimited,
+    };
+  } catch {
+    return { budgets: {}, strikes: 0 };
+  }
+}
+
+export async function saveRateLimitState(kv: AccountStore, state: RateLimitState): Promise<void> {
+  if (Object.keys(state.budgets).length === 0 && state.strikes === 0 && !state.pausedUntil && !state.lastLimited) {
+    await kv.delete(RATE_LIMITS_KEY);
+    return;
+  }
+  await kv.put(RATE_LIMITS_KEY, JSON.stringify(state));
+}
+
+/** True while the circuit breaker is open. */
+export function isPaused(state: RateLimitState, now: Date): boolean {
+  return !!state.pausedUntil && new Date(state.pausedUntil).getTime() > now.getTime();
+}
+
+/**
+ * How many calls of a class this run may make: `max`, or a share of what's left
+ * when the stored budget is low and hasn't reset yet.
+ */
+export function budgetCap(state: RateLimitState, endpoint: EndpointClass, max: number, now: Date): number {
+  const budget = state.budgets[endpoint];
+  if (!budget || new Date(budget.resetAt).getTime() <= now.getTime()) return max;
+  return Math.min(max, Math.floor(budget.remaining * RUN_SHARE));
+}
+
+/**
+ * Merge the budgets seen during a run. Low budgets are stored; healthy and expired ones are dropped.
+ */
+export function updateBudgets(
+  state: RateLimitState,
+  observed: Partial<Record<EndpointClass, EndpointBudget>>,
+  now: Date
+): void {
+  for (const endpoint of ENDPOINT_CLASSES) {
+    const seen = observed[endpoint];
+    if (seen) {
+      if (seen.remaining < seen.limit * LOW_BUDGET_FRACTION) state.budgets[endpoint] = seen;
+      else delete state.budgets[endpoint];
+    }
+    const kept = state.budgets[endpoint];
+    if (kept && new Date(kept.resetAt).getTime() <= now.getTime()) delete state.budgets[endpoint];
+  }
+}
+
+/**
+ * Open the circuit after a 429: pause until the reset time Bluesky gave, and at least
+ * 1, 2, 4 … 60 minutes for consecutive rate-limited runs.
+ */
+export function recordRateLimited(state: RateLimitState, now: Date, endpoint?: EndpointClass, resetAt?: string): void {
+  state.strikes++;
+  const backoffMin = Math.min(BACKOFF_MAX_MIN, BACKOFF_BASE_MIN * 2 ** (state.strikes - 1));
+  const until = Math.max(now.getTime() + backoffMin * 60 * 1000, resetAt ? new Date(resetAt).getTime() : 0);
+  state.pausedUntil = new Date(until).toISOString();
+  state.lastLimited = { endpoint, at: now.toISOString() };
+  if (endpoint && resetAt) {
+    const budget = state.budgets[endpoint];
+    state.budgets[endpoint] = { limit: budget?.limit ?? 0, remaining: 0, resetAt };
+  }
+}
+
+/** A run got through without a 429: close the circuit and reset the backoff. */
+export function recordHealthyRun(state: RateLimitState): void {
+  state.strikes = 0;
+  delete state.pausedUntil;
+}
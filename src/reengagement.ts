@@ -0,0 +1,34 @@
+/**
+ * Re-engagement: reply again when someone DMs after N days of silence in the convo.
+ */
+
+import { ReengagementSettings } from './types';
+import { validateTemplate } from './templates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AFTER_DAYS = 3650;
+
+export function defaultReengagement(): ReengagementSettings {
+  return { enabled: false, afterDays: 90, message: '' };
+}
+
+export function reengagementAfterMs(settings: ReengagementSettings): number {
+  return settings.afterDays * DAY_MS;
+}
+
+/**
+ * Validate and normalize re-engagement settings from the admin API.
+ */
+export function validateReengagement(input: unknown): { settings: ReengagementSettings } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'reengagement must be an object' };
+  const r = input as Partial<ReengagementSettings>;
+  const afterDays = Math.round(Number(r.afterDays));
+  if (!Number.isFinite(afterDays) || afterDays < 1 || afterDays > MAX_AFTER_DAYS) {
+    return { error: `Re-engagement delay must be between 1 and ${MAX_AFTER_DAYS} days` };
+  }
+  const message = (r.message || '').trim();
+  if (message.length > 1000) return { error: 'Welcome back message exceeds 1000 characters' };
+  const templateError = validateTemplate(message);
+  if (templateError) return { error: `Welcome back message: ${templateError}` };
+  return { settings: { enabled: !!r.enabled, afterDays, message } };
+}
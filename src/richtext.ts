@@ -0,0 +1,136 @@
+/**
+ * Rich text facets for outgoing DMs: links, @mentions and #hashtags.
+ * Facet indexes are UTF-8 byte offsets, as required by app.bsky.richtext.facet.
+ */
+
+export type FacetFeature =
+  | { $type: 'app.bsky.richtext.facet#link'; uri: string }
+  | { $type: 'app.bsky.richtext.facet#mention'; did: string }
+  | { $type: 'app.bsky.richtext.facet#tag'; tag: string };
+
+export interface Facet {
+  index: { byteStart: number; byteEnd: number };
+  features: FacetFeature[];
+}
+
+/** A detected link / mention / tag, as UTF-16 string indexes into the text. */
+export interface FacetSpan {
+  start: number;
+  end: number;
+  type: 'link' | 'mention' | 'tag';
+  /** URL (with scheme), handle (without @) or tag (without #) */
+  value: string;
+}
+
+const MENTION_RE = /(^|\s|\()@([a-zA-Z0-9.-]+)/g;
+const HANDLE_RE = /^([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+const URL_RE = /(^|\s|\()((https?:\/\/\S+)|([a-z][a-z0-9-]*(\.[a-z0-9-]+)+\S*))/gi;
+const TAG_RE = /(^|\s)[#\uFF03]([^\s\u00AD\u2060\u200A\u200B\u200C\u200D\u20e2]+)/gu;
+const TRAILING_PUNCT_RE = /[.,;:!?"'’”]+$/;
+const MAX_TAG_LENGTH = 64;
+/** Bare domains (no https://) are only linked for these TLDs, so "e.g." or "file.txt" stay plain text. */
+const BARE_DOMAIN_TLDS = new Set([
+  'com', 'net', 'org', 'io', 'app', 'dev', 'social', 'co', 'me', 'xyz', 'ai', 'gg', 'tv', 'info', 'biz',
+  'shop', 'store', 'art', 'blog', 'link', 'page', 'site', 'online', 'uk', 'us', 'ca', 'au', 'de', 'fr',
+  'es', 'it', 'nl', 'jp', 'br', 'pt', 'mx', 'in', 'eu',
+]);
+
+function utf8Length(s: string): number {
+  return new TextEncoder().encode(s).length;
+}
+
+/** Strip trailing punctuation and an unbalanced closing parenthesis from a URL. */
+function trimUrl(url: string): string {
+  let out = url.replace(TRAILING_PUNCT_RE, '');
+  if (out.endsWith(')') && !out.includes('(')) out = out.slice(0, -1).replace(TRAILING_PUNCT_RE, '');
+  return out;
+}
+
+function overlaps(a: FacetSpan, spans: FacetSpan[]): boolean {
+  return spans.some((b) => a.start < b.end && b.start < a.end);
+}
+
+/**
+ * Find links, mentions and hashtags in the text. Spans never overlap;
+ * URLs take precedence (so "#anchor" inside a link isn't a tag).
+ */
+export function detectFacetSpans(text: string): FacetSpan[] {
+  const spans: FacetSpan[] = [];
+
+  for (const m of text.matchAll(URL_RE)) {
+    const raw = trimUrl(m[2]);
+    const start = m.index! + m[1].length;
+    let uri = raw;
+    if (!m[3]) {
+      const domain = raw.split(/[/?#:]/)[0];
+      const tld = domain.split('.').pop()!.toLowerCase();
+      if (!BARE_DOMAIN_TLDS.has(tld)) continue;
+      uri = `https://${raw}`;
+    }
+    spans.push({ start, end: start + raw.length, type: 'link', value: uri });
+  }
+
+  for (const m of text.matchAll(MENTION_RE)) {
+    const handle = m[2].replace(/[.-]+$/, '');
+    if (!HANDLE_RE.test(handle)) continue;
+    const start = m.index! + m[1].length;
+    const span: FacetSpan = { start, end: start + 1 + handle.length, type: 'mention', value: handle.toLowerCase() };
+    if (!overlaps(span, spans)) spans.push(span);
+  }
+
+  for (const m of text.matchAll(TAG_RE)) {
+    const tag = m[2].replace(/\p{P}+$/u, '');
+    if (!tag || tag.length > MAX_TAG_LENGTH || /^\d+$/.test(tag)) continue;
+    const start = m.index! + m[1].length;
+    const span: FacetSpan = { start, end: start + 1 + tag.length, type: 'tag', value: tag };
+    if (!overlaps(span, spans)) spans.push(span);
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cut text to at most `max` graphemes, segmented for `locale` (the message's language).
+ * If the cut would land inside a facet, the whole facet is dropped instead of leaving
+ * a broken link / mention / tag.
+ */
+export function truncateGraphemes(
+  text: string,
+  max: number,
+  spans: FacetSpan[] = detectFacetSpans(text),
+  locale = 'en'
+): string {
+  const seg = new Intl.Segmenter(locale, { granularity: 'grapheme' });
+  const segments = [...seg.segment(text)];
+  if (segments.length <= max) return text;
+  let cut = segments[max].index;
+  const split = spans.find((s) => s.start < cut && cut < s.end);
+  if (split) cut = split.start;
+  return text.slice(0, cut).trimEnd();
+}
+
+/**
+ * Build facets for the detected spans. Mentions are only included when their
+ * handle resolved to a DID (pass the resolutions in `mentionDids`).
+ */
+export function buildFacets(text: string, spans: FacetSpan[], mentionDids: Map<string, string>): Facet[] {
+  const facets: Facet[] = [];
+  for (const span of spans) {
+    let feature: FacetFeature;
+    if (span.type === 'link') {
+      feature = { $type: 'app.bsky.richtext.facet#link', uri: span.value };
+    } else if (span.type === 'tag') {
+      feature = { $type: 'app.bsky.richtext.facet#tag', tag: span.value };
+    } else {
+      const did = mentionDids.get(span.value);
+      if (!did) continue;
+      feature = { $type: 'app.bsky.richtext.facet#mention', did };
+    }
+    const byteStart = utf8Length(text.slice(0, span.start));
+    facets.push({
+      index: { byteStart, byteEnd: byteStart + utf8Length(text.slice(span.start, span.end)) },
+      features: [feature],
+    });
+  }
+  return facets;
+}
@@ -0,0 +1,107 @@
+/**
+ * Keyword / phrase / regex rules that pick which auto-reply to send.
+ * Rules are evaluated in order against the last inbound message; first match wins.
+ */
+
+import { AccountStore, ReplyRule, ReplyRuleMatchType } from './types';
+import { validateTemplate } from './templates';
+
+const RULES_KEY = 'rules';
+const MAX_RULES = 50;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_REPLY_LENGTH = 1000;
+const MATCH_TYPES: ReplyRuleMatchType[] = ['keyword', 'phrase', 'regex'];
+
+export async function getRules(kv: AccountStore): Promise<ReplyRule[]> {
+  const raw = await kv.get(RULES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as ReplyRule[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveRules(kv: AccountStore, rules: ReplyRule[]): Promise<void> {
+  await kv.put(RULES_KEY, JSON.stringify(rules));
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Build the RegExp for a rule. Throws on an invalid regex pattern. */
+function compileRule(rule: Pick<ReplyRule, 'matchType' | 'pattern' | 'caseSensitive'>): RegExp {
+  const flags = rule.caseSensitive ? 'u' : 'iu';
+  if (rule.matchType === 'regex') return new RegExp(rule.pattern, flags);
+  if (rule.matchType === 'phrase') return new RegExp(escapeRegex(rule.pattern.trim()), flags);
+  // keyword: comma-separated list, each matched as a whole word
+  const words = rule.pattern
+    .split(',')
+    .map((w) => w.trim())
+    .filter(Boolean)
+    .map(escapeRegex);
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${words.join('|')})(?![\\p{L}\\p{N}_])`, flags);
+}
+
+/**
+ * Validate and normalize rules from the admin API.
+ * Returns the cleaned list or an error message.
+ */
+export function validateRules(input: unknown): { rules: ReplyRule[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: 'rules must be an array' };
+  if (input.length > MAX_RULES) return { error: `At most ${MAX_RULES} rules allowed` };
+  const rules: ReplyRule[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const r = input[i] as Partial<ReplyRule>;
+    const n = i + 1;
+    const matchType = r.matchType;
+    if (!matchType || !MATCH_TYPES.includes(matchType)) {
+      return { error: `Rule ${n}: matchType must be one of ${MATCH_TYPES.join(', ')}` };
+    }
+    const pattern = (r.pattern || '').trim();
+    if (!pattern) return { error: `Rule ${n}: pattern is required` };
+    if (pattern.length > MAX_PATTERN_LENGTH) return { error: `Rule ${n}: pattern too long` };
+    if (matchType === 'keyword' && !pattern.split(',').some((w) => w.trim())) {
+      return { error: `Rule ${n}: at least one keyword is required` };
+    }
+    const reply = (r.reply || '').trim();
+    if (!reply) return { error: `Rule ${n}: reply is required` };
+    if (reply.length > MAX_REPLY_LENGTH) return { error: `Rule ${n}: reply exceeds ${MAX_REPLY_LENGTH} characters` };
+    const templateError = validateTemplate(reply);
+    if (templateError) return { error: `Rule ${n}: ${templateError}` };
+    const caseSensitive = !!r.caseSensitive;
+    try {
+      compileRule({ matchType, pattern, caseSensitive });
+    } catch (err) {
+      return { error: `Rule ${n}: invalid regex (${(err as Error).message})` };
+    }
+    rules.push({
+      id: r.id && typeof r.id === 'string' ? r.id : crypto.randomUUID(),
+      matchType,
+      pattern,
+      reply,
+      enabled: r.enabled ?? true,
+      caseSensitive,
+    });
+  }
+  return { rules };
+}
+
+/**
+ * Return the first enabled rule matching the message text, or null.
+ * Rules that fail to compile are skipped.
+ */
+export function matchRule(rules: ReplyRule[], text: string | undefined): ReplyRule | null {
+  if (!text) return null;
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    try {
+      if (compileRule(rule).test(text)) return rule;
+    } catch {
+      /* skip invalid rule */
+    }
+  }
+  return null;
+}
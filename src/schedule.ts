@@ -0,0 +1,174 @@
+/**
+ * Weekly business hours with date-range overrides, evaluated in the bot's time zone.
+ */
+
+import { BusinessSchedule, ScheduleOverride, TimeRange } from './types';
+import { validateTemplate } from './templates';
+
+export const DEFAULT_AWAY_MESSAGE =
+  "Thanks for your message! We're away right now and will be back {backAt|soon}.";
+
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RANGES_PER_DAY = 6;
+const MAX_OVERRIDES = 100;
+/** How far ahead to look for the next opening */
+const LOOKAHEAD_DAYS = 60;
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function defaultSchedule(): BusinessSchedule {
+  const weekday: TimeRange[] = [{ start: '09:00', end: '17:00' }];
+  return {
+    enabled: false,
+    weekly: [[], weekday, weekday, weekday, weekday, weekday, []],
+    overrides: [],
+    inHoursMode: 'welcome',
+    awayMessage: DEFAULT_AWAY_MESSAGE,
+  };
+}
+
+interface LocalDay {
+  /** YYYY-MM-DD */
+  date: string;
+  weekday: number;
+  /** Minutes since local midnight */
+  minutes: number;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function localNow(now: Date, timeZone: string): LocalDay {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '0';
+  const date = `${get('year')}-${get('month')}-${get('day')}`;
+  return {
+    date,
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/** Calendar day `offset` days after `date` (pure date arithmetic, no time zone). */
+function addDays(date: string, offset: number): { date: string; weekday: number } {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + offset);
+  return { date: d.toISOString().slice(0, 10), weekday: d.getUTCDay() };
+}
+
+function hoursForDay(schedule: BusinessSchedule, date: string, weekday: number): TimeRange[] {
+  const override = schedule.overrides.find((o) => o.from <= date && date <= o.to);
+  if (override) return override.hours;
+  return schedule.weekly[weekday] || [];
+}
+
+export function isWithinBusinessHours(schedule: BusinessSchedule, timeZone: string, now: Date): boolean {
+  const local = localNow(now, timeZone);
+  return hoursForDay(schedule, local.date, local.weekday).some(
+    (r) => toMinutes(r.start) <= local.minutes && local.minutes < toMinutes(r.end)
+  );
+}
+
+function formatClock(hhmm: string): string {
+  const mins = toMinutes(hhmm) % (24 * 60);
+  const h = Math.floor(mins / 60);
+  const m = mins % 60;
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * Human-readable next opening time, e.g. "tomorrow at 9:00 AM" or "Monday, Mar 3 at 9:00 AM".
+ * Returns null if nothing opens within the lookahead window.
+ */
+export function nextOpening(schedule: BusinessSchedule, timeZone: string, now: Date): string | null {
+  const local = localNow(now, timeZone);
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(local.date, offset);
+    const starts = hoursForDay(schedule, day.date, day.weekday)
+      .map((r) => r.start)
+      .filter((start) => offset > 0 || toMinutes(start) > local.minutes)
+      .sort();
+    if (starts.length === 0) continue;
+    const clock = formatClock(starts[0]);
+    if (offset === 0) return `today at ${clock}`;
+    if (offset === 1) return `tomorrow at ${clock}`;
+    const label = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }).format(
+      new Date(`${day.date}T00:00:00Z`)
+    );
+    return `${WEEKDAYS[day.weekday]}, ${label} at ${clock}`;
+  }
+  return null;
+}
+
+function validateRanges(input: unknown, where: string): { hours: TimeRange[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: `${where}: hours must be an array` };
+  if (input.length > MAX_RANGES_PER_DAY) return { error: `${where}: at most ${MAX_RANGES_PER_DAY} time ranges` };
+  const hours: TimeRange[] = [];
+  for (const r of input as Partial<TimeRange>[]) {
+    const start = (r?.start || '').trim();
+    const end = (r?.end || '').trim();
+    if (!TIME_RE.test(start) || !TIME_RE.test(end)) {
+      return { error: `${where}: times must be HH:MM (24h), got "${start}-${end}"` };
+    }
+    if (toMinutes(end) <= toMinutes(start)) {
+      return { error: `${where}: ${start}-${end} ends before it starts` };
+    }
+    hours.push({ start, end });
+  }
+  return { hours };
+}
+
+/**
+ * Validate and normalize a schedule from the admin API.
+ */
+export function validateSchedule(input: unknown): { schedule: BusinessSchedule } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'schedule must be an object' };
+  const s = input as Partial<BusinessSchedule>;
+  if (!Array.isArray(s.weekly) || s.weekly.length !== 7) {
+    return { error: 'schedule.weekly must have 7 entries (Sunday to Saturday)' };
+  }
+  const weekly: TimeRange[][] = [];
+  for (let d = 0; d < 7; d++) {
+    const result = validateRanges(s.weekly[d], WEEKDAYS[d]);
+    if ('error' in result) return result;
+    weekly.push(result.hours);
+  }
+  const overridesIn = s.overrides ?? [];
+  if (!Array.isArray(overridesIn)) return { error: 'schedule.overrides must be an array' };
+  if (overridesIn.length > MAX_OVERRIDES) return { error: `At most ${MAX_OVERRIDES} date overrides` };
+  const overrides: ScheduleOverride[] = [];
+  for (const o of overridesIn as Partial<ScheduleOverride>[]) {
+    const from = (o?.from || '').trim();
+    const to = (o?.to || from).trim();
+    if (!DATE_RE.test(from) || !DATE_RE.test(to)) return { error: 'Override dates must be YYYY-MM-DD' };
+    if (to < from) return { error: `Override ${from}–${to} ends before it starts` };
+    const result = validateRanges(o.hours ?? [], `Override ${from}`);
+    if ('error' in result) return result;
+    const label = (o.label || '').trim().slice(0, 100);
+    overrides.push({ from, to, ...(label ? { label } : {}), hours: result.hours });
+  }
+  overrides.sort((a, b) => a.from.localeCompare(b.from));
+  const awayMessage = (s.awayMessage || '').trim() || DEFAULT_AWAY_MESSAGE;
+  if (awayMessage.length > 1000) return { error: 'Away message exceeds 1000 characters' };
+  const templateError = validateTemplate(awayMessage);
+  if (templateError) return { error: `Away message: ${templateError}` };
+  return {
+    schedule: {
+      enabled: !!s.enabled,
+      weekly,
+      overrides,
+      inHoursMode: s.inHoursMode === 'none' ? 'none' : 'welcome',
+      awayMessage,
+    },
+  };
+}
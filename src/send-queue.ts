@@ -0,0 +1,82 @@
+/**
+ * Scheduled sends: auto-replies waiting out the message delay.
+ * The cron run queues a reply with its due time instead of sleeping, and later
+ * runs send whatever is due, so the delay no longer holds the run open.
+ */
+
+import { ReplyKind } from './ledger';
+import { AccountStore, WelcomeLanguage } from './types';
+
+const SEND_QUEUE_KEY = 'send_queue';
+const MAX_QUEUE = 500;
+/** Runs that try a reply before it's dropped */
+const MAX_SEND_ATTEMPTS = 5;
+
+export interface ScheduledSend {
+  convoId: string;
+  did: string;
+  handle?: string;
+  kind: ReplyKind;
+  ruleId?: string;
+  /** Rendered reply */
+  message: string;
+  /** Language of a localized welcome message */
+  lang?: WelcomeLanguage;
+  /** A/B test variant of the welcome message */
+  variantId?: string;
+  /** Text of the DM being answered (for webhooks) */
+  inboundText?: string;
+  queuedAt: string;
+  dueAt: string;
+  /** Ledger `repliedAt` when the reply was queued, to detect a reply sent meanwhile */
+  previousRepliedAt?: string;
+  /** Failed send attempts so far */
+  attempts?: number;
+}
+
+export async function getSendQueue(kv: AccountStore): Promise<ScheduledSend[]> {
+  const raw = await kv.get(SEND_QUEUE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as ScheduledSend[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveSendQueue(kv: AccountStore, queue: ScheduledSend[]): Promise<void> {
+  if (queue.length === 0) {
+    await kv.delete(SEND_QUEUE_KEY);
+    return;
+  }
+  await kv.put(SEND_QUEUE_KEY, JSON.stringify(queue));
+}
+
+/** Queue a reply. Returns false if the queue is full (the DM is picked up again on a later run). */
+export function scheduleSend(queue: ScheduledSend[], item: ScheduledSend): boolean {
+  if (queue.some((q) => q.convoId === item.convoId)) return true;
+  if (queue.length >= MAX_QUEUE) return false;
+  queue.push(item);
+  return true;
+}
+
+/** Items whose delay has passed, oldest first. */
+export function dueSends(queue: ScheduledSend[], now: number): ScheduledSend[] {
+  return queue
+    .filter((q) => new Date(q.dueAt).getTime() <= now)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+/** Count a failed send; the item stays queued for the next run until it has used up its attempts. */
+export function noteFailedSend(queue: ScheduledSend[], convoId: string): void {
+  const item = queue.find((q) => q.convoId === convoId);
+  if (!item) return;
+  item.attempts = (item.attempts ?? 0) + 1;
+  if (item.attempts >= MAX_SEND_ATTEMPTS) removeScheduledSend(queue, convoId);
+}
+
+export function removeScheduledSend(queue: ScheduledSend[], convoId: string): void {
+  const i = queue.findIndex((q) => q.convoId === convoId);
+  if (i >= 0) queue.splice(i, 1);
+}
@@ -0,0 +1,115 @@
+/**
+ * Follow-up sequences: per-conversation state for messages sent after the first auto-reply.
+ * A sequence stops as soon as anyone (the user or a human on our side) writes in the convo.
+ */
+
+import { AccountStore, FollowUpStep } from './types';
+import { validateTemplate } from './templates';
+
+const SEQUENCES_KEY = 'sequences';
+/** Keep finished sequences this long so the admin can see them */
+const FINISHED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_STEPS = 10;
+const MAX_AFTER_HOURS = 90 * 24;
+
+export type SequenceStatus = 'active' | 'completed' | 'stopped';
+
+export interface SequenceState {
+  convoId: string;
+  did: string;
+  handle?: string;
+  /** When the first auto-reply was sent (ISO) */
+  startedAt: string;
+  /** Index of the next follow-up step to send */
+  nextStep: number;
+  /** ID of the last message the bot sent; any newer message means someone replied */
+  lastMessageId: string;
+  lastSentAt: string;
+  status: SequenceStatus;
+  /** Why the sequence stopped, e.g. "user replied" */
+  stopReason?: string;
+  finishedAt?: string;
+}
+
+/**
+ * All sequences live in one KV value so each cron run costs a single read
+ * (KV list operations are too limited to poll every minute).
+ */
+export async function getSequences(kv: AccountStore): Promise<SequenceState[]> {
+  const raw = await kv.get(SEQUENCES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as SequenceState[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Save sequences, dropping finished ones past the retention window. */
+export async function saveSequences(kv: AccountStore, sequences: SequenceState[]): Promise<void> {
+  const cutoff = Date.now() - FINISHED_RETENTION_MS;
+  const kept = sequences.filter(
+    (s) => s.status === 'active' || new Date(s.finishedAt || s.lastSentAt).getTime() > cutoff
+  );
+  await kv.put(SEQUENCES_KEY, JSON.stringify(kept));
+}
+
+export function startSequence(
+  sequences: SequenceState[],
+  init: { convoId: string; did: string; handle?: string; lastMessageId: string },
+  now: Date
+): void {
+  const state: SequenceState = {
+    ...init,
+    startedAt: now.toISOString(),
+    nextStep: 0,
+    lastSentAt: now.toISOString(),
+    status: 'active',
+  };
+  const i = sequences.findIndex((s) => s.convoId === init.convoId);
+  if (i >= 0) sequences[i] = state;
+  else sequences.push(state);
+}
+
+export function finishSequence(state: SequenceState, status: 'completed' | 'stopped', reason?: string): void {
+  state.status = status;
+  state.finishedAt = new Date().toISOString();
+  if (reason) state.stopReason = reason;
+}
+
+/** When the next step is due, or null if the sequence has no steps left. */
+export function nextDueAt(state: SequenceState, steps: FollowUpStep[]): Date | null {
+  const step = steps[state.nextStep];
+  if (state.status !== 'active' || !step) return null;
+  return new Date(new Date(state.startedAt).getTime() + step.afterHours * 60 * 60 * 1000);
+}
+
+/**
+ * Validate and normalize follow-up steps from the admin API.
+ */
+export function validateFollowUps(input: unknown): { steps: FollowUpStep[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: 'followUps must be an array' };
+  if (input.length > MAX_STEPS) return { error: `At most ${MAX_STEPS} follow-up steps allowed` };
+  const steps: FollowUpStep[] = [];
+  let prevHours = 0;
+  for (let i = 0; i < input.length; i++) {
+    const s = input[i] as Partial<FollowUpStep>;
+    const n = i + 1;
+    const afterHours = Number(s.afterHours);
+    if (!Number.isFinite(afterHours) || afterHours < 1 || afterHours > MAX_AFTER_HOURS) {
+      return { error: `Follow-up ${n}: delay must be between 1 hour and ${MAX_AFTER_HOURS / 24} days` };
+    }
+    if (afterHours <= prevHours) {
+      return { error: `Follow-up ${n}: must come later than the previous step` };
+    }
+    const message = (s.message || '').trim();
+    if (!message) return { error: `Follow-up ${n}: message is required` };
+    if (message.length > 1000) return { error: `Follow-up ${n}: message exceeds 1000 characters` };
+    const templateError = validateTemplate(message);
+    if (templateError) return { error: `Follow-up ${n}: ${templateError}` };
+    steps.push({ id: s.id && typeof s.id === 'string' ? s.id : crypto.randomUUID(), afterHours, message });
+    prevHours = afterHours;
+  }
+  return { steps };
+}
@@ -0,0 +1,222 @@
+/**
+ * Spam scoring for incoming DMs. Each DM gets a score from a few local signals (denylisted
+ * link domains, suspicious phrases, brand-new sender accounts, the same text from many
+ * senders); at or above the threshold it's flagged and gets no auto-reply.
+ * Flagged DMs and what was done about them (mute, leave, report) go to a moderation log
+ * the admin can review and undo from.
+ */
+
+import { AccountStore, SpamSettings } from './types';
+
+const FINGERPRINTS_KEY = 'spam_fingerprints';
+const MODERATION_KEY = 'moderation_log';
+const FINGERPRINT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_FINGERPRINTS = 1000;
+/** Shorter texts ("hi", "hello!") are too common to count as copy-paste spam */
+const MIN_FINGERPRINT_CHARS = 20;
+const MAX_LOG_ENTRIES = 500;
+const LOG_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const MAX_LIST_ITEMS = 200;
+const MAX_TEXT_CHARS = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Points per signal; the default threshold (3) flags a denylisted link or repeated text on its own */
+const WEIGHTS = { blockedDomain: 3, phrase: 2, newAccount: 1, repeated: 3 };
+
+export function defaultSpamSettings(): SpamSettings {
+  return {
+    enabled: false,
+    threshold: 3,
+    blockedDomains: [],
+    phrases: ['airdrop', 'seed phrase', 'guaranteed profit', 'investment opportunity', 'whatsapp me'],
+    newAccountDays: 7,
+    repeatSenders: 3,
+    action: 'none',
+    report: false,
+  };
+}
+
+function cleanList(input: unknown, lower = true): string[] | null {
+  if (input === undefined) return [];
+  if (!Array.isArray(input)) return null;
+  const items = input.map((s) => String(s).trim()).filter(Boolean);
+  return [...new Set(lower ? items.map((s) => s.toLowerCase()) : items)];
+}
+
+/**
+ * Validate and normalize spam settings from the admin API.
+ */
+export function validateSpamSettings(input: unknown): { settings: SpamSettings } | { error: string } {
+  if (!input || typeof input !== 'object') return { error: 'spam must be an object' };
+  const s = input as Partial<SpamSettings>;
+  const threshold = Math.round(Number(s.threshold ?? 3));
+  if (!Number.isFinite(threshold) || threshold < 1 || threshold > 20) {
+    return { error: 'Spam threshold must be between 1 and 20' };
+  }
+  const blockedDomains = cleanList(s.blockedDomains)?.map((d) => d.replace(/^https?:\/\//, '').replace(/\/.*$/, ''));
+  if (!blockedDomains) return { error: 'spam.blockedDomains must be an array' };
+  const phrases = cleanList(s.phrases);
+  if (!phrases) return { error: 'spam.phrases must be an array' };
+  if (blockedDomains.length > MAX_LIST_ITEMS || phrases.length > MAX_LIST_ITEMS) {
+    return { error: `At most ${MAX_LIST_ITEMS} domains and ${MAX_LIST_ITEMS} phrases` };
+  }
+  const newAccountDays = Math.round(Number(s.newAccountDays ?? 0));
+  if (!Number.isFinite(newAccountDays) || newAccountDays < 0 || newAccountDays > 3650) {
+    return { error: 'New account age must be between 0 and 3650 days' };
+  }
+  const repeatSenders = Math.round(Number(s.repeatSenders ?? 0));
+  if (!Number.isFinite(repeatSenders) || repeatSenders < 0 || repeatSenders > 100) {
+    return { error: 'Repeated text senders must be between 0 and 100' };
+  }
+  const action = s.action ?? 'none';
+  if (!['none', 'mute', 'leave'].includes(action)) return { error: 'spam.action must be none, mute or leave' };
+  return {
+    settings: {
+      enabled: !!s.enabled,
+      threshold,
+      blockedDomains,
+      phrases,
+      newAccountDays,
+      repeatSenders,
+      action,
+      report: !!s.report,
+    },
+  };
+}
+
+/** Denylisted domains linked in the text, matching subdomains and links without https://. */
+export function findBlockedDomains(text: string, blockedDomains: string[]): string[] {
+  const lower = text.toLowerCase();
+  return blockedDomains.filter((domain) => {
+    const escaped = domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9.-])([a-z0-9-]+\\.)*${escaped}($|[^a-z0-9-])`).test(lower);
+  });
+}
+
+export interface SpamSignals {
+  text: string;
+  /** Distinct senders of the same text within the last day (including this one) */
+  senders: number;
+  /** Sender account age, if known */
+  accountAgeDays?: number;
+}
+
+/** Score a DM; `signals` says which checks it tripped, for the moderation log. */
+export function scoreMessage(settings: SpamSettings, input: SpamSignals): { score: number; signals: string[] } {
+  const signals: string[] = [];
+  let score = 0;
+  const domains = findBlockedDomains(input.text, settings.blockedDomains);
+  if (domains.length > 0) {
+    score += WEIGHTS.blockedDomain;
+    signals.push(`blocked link: ${domains.join(', ')}`);
+  }
+  const lower = input.text.toLowerCase();
+  const phrases = settings.phrases.filter((p) => lower.includes(p));
+  if (phrases.length > 0) {
+    score += WEIGHTS.phrase;
+    signals.push(`phrase: ${phrases.join(', ')}`);
+  }
+  if (settings.newAccountDays > 0 && input.accountAgeDays !== undefined && input.accountAgeDays < settings.newAccountDays) {
+    score += WEIGHTS.newAccount;
+    signals.push(`account ${Math.floor(input.accountAgeDays)} days old`);
+  }
+  if (settings.repeatSenders > 0 && input.senders >= settings.repeatSenders) {
+    score += WEIGHTS.repeated;
+    signals.push(`same text from ${input.senders} senders`);
+  }
+  return { score, signals };
+}
+
+export function ageInDays(createdAt: string | undefined, now: Date): number | undefined {
+  if (!createdAt) return undefined;
+  const age = (now.getTime() - new Date(createdAt).getTime()) / DAY_MS;
+  return Number.isFinite(age) ? age : undefined;
+}
+
+/** Recently seen texts: fingerprint → who sent it and when it was last seen. */
+export type Fingerprints = Record<string, { dids: string[]; lastSeen: string }>;
+
+/** Short hash of the normalized text, or null if it's too short to count. */
+export async function textFingerprint(text: string): Promise<string | null> {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (normalized.length < MIN_FINGERPRINT_CHARS) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function getFingerprints(kv: AccountStore): Promise<Fingerprints> {
+  const raw = await kv.get(FINGERPRINTS_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Fingerprints;
+  } catch {
+    return {};
+  }
+}
+
+/** Save, dropping texts not seen for a day and the oldest beyond the cap. */
+export async function saveFingerprints(kv: AccountStore, fingerprints: Fingerprints, now: Date): Promise<void> {
+  const cutoff = now.getTime() - FINGERPRINT_WINDOW_MS;
+  const kept = Object.entries(fingerprints)
+    .filter(([, v]) => new Date(v.lastSeen).getTime() > cutoff)
+    .sort((a, b) => b[1].lastSeen.localeCompare(a[1].lastSeen))
+    .slice(0, MAX_FINGERPRINTS);
+  if (kept.length === 0) {
+    await kv.delete(FINGERPRINTS_KEY);
+    return;
+  }
+  await kv.put(FINGERPRINTS_KEY, JSON.stringify(Object.fromEntries(kept)));
+}
+
+/** Note that `did` sent the text; returns how many distinct senders sent it within the last day. */
+export function noteFingerprint(fingerprints: Fingerprints, hash: string, did: string, now: Date): number {
+  const seen = fingerprints[hash];
+  const fresh = seen && new Date(seen.lastSeen).getTime() > now.getTime() - FINGERPRINT_WINDOW_MS;
+  const dids = fresh ? seen.dids : [];
+  if (!dids.includes(did)) dids.push(did);
+  fingerprints[hash] = { dids, lastSeen: now.toISOString() };
+  return dids.length;
+}
+
+export interface ModerationEntry {
+  id: string;
+  convoId: string;
+  did: string;
+  handle?: string;
+  messageId?: string;
+  /** The flagged DM (truncated) */
+  text: string;
+  score: number;
+  signals: string[];
+  flaggedAt: string;
+  /** Flagged in dry run: nothing was muted, left or reported */
+  dryRun?: boolean;
+  muted?: boolean;
+  left?: boolean;
+  reported?: boolean;
+  /** Marked as not spam by the admin */
+  undoneAt?: string;
+}
+
+export async function getModerationLog(kv: AccountStore): Promise<ModerationEntry[]> {
+  const raw = await kv.get(MODERATION_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as ModerationEntry[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveModerationLog(kv: AccountStore, log: ModerationEntry[]): Promise<void> {
+  const cutoff = Date.now() - LOG_RETENTION_MS;
+  const kept = log.filter((e) => new Date(e.flaggedAt).getTime() > cutoff).slice(0, MAX_LOG_ENTRIES);
+  await kv.put(MODERATION_KEY, JSON.stringify(kept));
+}
+
+export function truncateForLog(text: string): string {
+  return text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}…` : text;
+}
@@ -0,0 +1,102 @@
+/**
+ * Placeholder substitution for reply messages, e.g. "Hi {displayName|there}!".
+ * Syntax: {name} or {name|fallback}. Unknown names are rejected on save.
+ */
+
+export const TEMPLATE_VARIABLES = ['handle', 'displayName', 'did', 'date', 'time', 'firstWords', 'backAt'] as const;
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+/** Variables that need the sender's profile (handle / display name) to resolve. */
+const PROFILE_VARIABLES: TemplateVariable[] = ['handle', 'displayName'];
+const FIRST_WORDS_COUNT = 5;
+const PLACEHOLDER_RE = /\{(\w+)(?:\|([^{}]*))?\}/g;
+
+export interface TemplateContext {
+  did: string;
+  handle?: string;
+  displayName?: string;
+  /** Text of the sender's inbound message */
+  messageText?: string;
+  now: Date;
+  /** IANA time zone for {date} / {time}. Default: UTC */
+  timeZone?: string;
+  /** Next business-hours opening, e.g. "tomorrow at 9:00 AM" (away message only) */
+  backAt?: string;
+  /** Language for {date} / {time}. Default: en-US */
+  locale?: string;
+}
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Names used in the text that are not known template variables. */
+export function findUnknownPlaceholders(text: string): string[] {
+  const unknown = new Set<string>();
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(m[1])) unknown.add(m[1]);
+  }
+  return [...unknown];
+}
+
+/** Returns an error message if the template uses unknown placeholders, else null. */
+export function validateTemplate(text: string): string | null {
+  const unknown = findUnknownPlaceholders(text);
+  if (unknown.length === 0) return null;
+  return `Unknown placeholder(s): ${unknown.map((n) => `{${n}}`).join(', ')}. Available: ${TEMPLATE_VARIABLES.map((n) => `{${n}}`).join(', ')}`;
+}
+
+/** True if rendering the text needs a profile lookup. */
+export function needsProfile(text: string): boolean {
+  for (const m of text.matchAll(PLACEHOLDER_RE)) {
+    if ((PROFILE_VARIABLES as string[]).includes(m[1])) return true;
+  }
+  return false;
+}
+
+function firstWords(text: string | undefined): string {
+  const words = (text || '').trim().split(/\s+/).filter(Boolean);
+  if (words.length <= FIRST_WORDS_COUNT) return words.join(' ');
+  return `${words.slice(0, FIRST_WORDS_COUNT).join(' ')}…`;
+}
+
+function resolveVariable(name: TemplateVariable, ctx: TemplateContext): string {
+  const timeZone = ctx.timeZone && isValidTimeZone(ctx.timeZone) ? ctx.timeZone : 'UTC';
+  switch (name) {
+    case 'handle':
+      return ctx.handle ? `@${ctx.handle}` : '';
+    case 'displayName':
+      // No display name set → fall back to the handle
+      return ctx.displayName?.trim() || (ctx.handle ? `@${ctx.handle}` : '');
+    case 'did':
+      return ctx.did;
+    case 'date':
+      return new Intl.DateTimeFormat(ctx.locale ?? 'en-US', { dateStyle: 'medium', timeZone }).format(ctx.now);
+    case 'time':
+      return new Intl.DateTimeFormat(ctx.locale ?? 'en-US', { timeStyle: 'short', timeZone }).format(ctx.now);
+    case 'firstWords':
+      return firstWords(ctx.messageText);
+    case 'backAt':
+      return ctx.backAt || '';
+  }
+}
+
+/**
+ * Replace placeholders in the text. Empty values use the inline fallback
+ * ({displayName|there}) or "there" for name-like variables.
+ * Unknown placeholders are left as-is.
+ */
+export function renderTemplate(text: string, ctx: TemplateContext): string {
+  return text.replace(PLACEHOLDER_RE, (match, name: string, fallback: string | undefined) => {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) return match;
+    const value = resolveVariable(name as TemplateVariable, ctx);
+    if (value) return value;
+    if (fallback !== undefined) return fallback;
+    return (PROFILE_VARIABLES as string[]).includes(name) ? 'there' : '';
+  });
+}
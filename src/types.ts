@@ -16,16 +16,209 @@ export interface Env {
    * Secret for signing admin session cookies. Required for /admin.
    */
   ADMIN_SESSION_SECRET?: string;
+  /**
+   * Secret for encrypting the app passwords of accounts added in the admin panel.
+   * Required to add accounts beyond the one in BSKY_HANDLE.
+   */
+  ACCOUNTS_ENCRYPTION_KEY?: string;
   WEBHOOK_BASE_URL?: string;
 }
 
+/**
+ * The KV operations used on an account's data. `BOT_CONFIG` is one; an added account
+ * gets a view of it that prefixes every key (see accounts.ts).
+ */
+export interface AccountStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<Metadata = unknown>(options?: KVNamespaceListOptions): Promise<KVNamespaceListResult<Metadata>>;
+}
+
+/** Env for one account: its credentials, with its KV data as an AccountStore */
+export interface AccountEnv extends Omit<Env, 'BOT_CONFIG'> {
+  BOT_CONFIG: AccountStore;
+}
+
+/** Languages the welcome message can be localized into */
+export type WelcomeLanguage = 'en' | 'es' | 'pt' | 'ja';
+
 export interface BotConfig {
+  /** Default welcome message, sent when there's no variant for the sender's language */
   welcomeMessage: string;
+  /** Per-language welcome messages, chosen by the language of the sender's DM */
+  welcomeMessages?: Partial<Record<WelcomeLanguage, string>>;
+  /** A/B test of welcome message variants (replaces the default welcome message while on) */
+  experiment?: ExperimentSettings;
   enabled: boolean;
+  /** Run the full reply pipeline but queue replies for review instead of sending (works while disabled too) */
+  dryRun?: boolean;
   /** Delay in seconds before sending the welcome message (0 = no delay) */
   messageDelaySeconds: number;
+  /** IANA time zone for {date} / {time} placeholders and business hours (e.g. "America/New_York"). Default: UTC */
+  timeZone?: string;
+  /** Business hours; outside them the away message is sent instead */
+  schedule?: BusinessSchedule;
+  /** Reply again when someone DMs after a long silence */
+  reengagement?: ReengagementSettings;
+  /** Who gets auto-replies (followers only, account age, labels, …) */
+  audience?: AudienceFilters;
+  /** What to do with DM requests (convos we haven't accepted yet) */
+  requestPolicy?: RequestPolicy;
+  /** Spam scoring for incoming DMs; flagged DMs get no reply */
+  spam?: SpamSettings;
+  /** Post embedded in the first auto-reply (resolved from a bsky.app URL or at:// URI) */
+  embedPost?: EmbeddedPost;
+  /** Follow-up messages sent after the first auto-reply until the convo gets a reply */
+  followUps?: FollowUpStep[];
   /** SHA-256 hash of admin password (hex) */
   adminPasswordHash?: string;
   /** True if initial setup has been completed */
   setupComplete: boolean;
 }
+
+export type WebhookEventType = 'dm.received' | 'reply.sent' | 'reply.failed' | 'rate_limited';
+
+export interface WebhookSubscriber {
+  id: string;
+  url: string;
+  /** HMAC-SHA256 signing secret (hex), generated when the webhook is added */
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  description?: string;
+}
+
+export interface WelcomeVariant {
+  id: string;
+  name: string;
+  message: string;
+  /** Relative share of recipients (0 = paused) */
+  weight: number;
+}
+
+export interface ExperimentSettings {
+  enabled: boolean;
+  /** An answer within this many hours of the welcome message counts as a response */
+  responseWindowHours: number;
+  variants: WelcomeVariant[];
+}
+
+export interface ReengagementSettings {
+  enabled: boolean;
+  /** Minimum days of silence before their new DM (since their previous message, or ours if more recent) */
+  afterDays: number;
+  /** "Welcome back" message; empty = send the usual auto-reply */
+  message: string;
+}
+
+export interface AudienceFilters {
+  /** Reply to everyone, only people who follow us, or only people who don't */
+  followMode: 'all' | 'followers' | 'nonFollowers';
+  /** Skip accounts younger than this many days (0 = off) */
+  minAccountAgeDays: number;
+  /** Skip accounts with fewer posts than this (0 = off) */
+  minPosts: number;
+  /** Skip accounts carrying any of these moderation labels (e.g. "spam") */
+  blockedLabels: string[];
+}
+
+/**
+ * What to do with a DM request: accept it (and auto-reply), leave it in requests until it's
+ * accepted by hand (the auto-reply follows then), mute it, or leave the convo.
+ */
+export type RequestAction = 'accept' | 'wait' | 'mute' | 'leave';
+
+export interface RequestPolicy {
+  /** Requests from senders who pass the blocklist and audience filters */
+  passing: RequestAction;
+  /** Requests from blocked senders and senders the audience filters skip (never auto-replied) */
+  filtered: RequestAction;
+}
+
+export interface SpamSettings {
+  enabled: boolean;
+  /** A DM scoring at least this much is flagged */
+  threshold: number;
+  /** Link domains that mark a DM as spam (subdomains included), e.g. "free-nft.xyz" */
+  blockedDomains: string[];
+  /** Phrases (case-insensitive) that make a DM suspicious */
+  phrases: string[];
+  /** Senders whose account is younger than this many days are suspicious (0 = off) */
+  newAccountDays: number;
+  /** The same text from this many different senders within a day is copy-paste spam (0 = off) */
+  repeatSenders: number;
+  /** Besides not replying: mute the flagged convo, leave it, or do nothing */
+  action: 'none' | 'mute' | 'leave';
+  /** Report the sender to Bluesky moderation */
+  report: boolean;
+}
+
+export interface EmbeddedPost {
+  /** What the admin entered (bsky.app URL or at:// URI) */
+  link: string;
+  uri: string;
+  cid: string;
+}
+
+export interface FollowUpStep {
+  id: string;
+  /** Hours after the first auto-reply. Strictly increasing across steps. */
+  afterHours: number;
+  message: string;
+}
+
+/** Local wall-clock range, "HH:MM" 24h. end may be "24:00". */
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+/** Holiday or special hours for a date range (inclusive, "YYYY-MM-DD" in the bot's time zone). */
+export interface ScheduleOverride {
+  from: string;
+  to: string;
+  label?: string;
+  /** Opening hours on these dates. Empty = closed all day. */
+  hours: TimeRange[];
+}
+
+export interface BusinessSchedule {
+  enabled: boolean;
+  /** Opening hours per weekday, index 0 = Sunday … 6 = Saturday */
+  weekly: TimeRange[][];
+  overrides: ScheduleOverride[];
+  /** What to do inside business hours: send the usual reply, or nothing (humans answer) */
+  inHoursMode: 'welcome' | 'none';
+  /** Sent outside business hours. Supports {backAt}. */
+  awayMessage: string;
+}
+
+export type ReplyRuleMatchType = 'keyword' | 'phrase' | 'regex';
+
+export interface ReplyRule {
+  id: string;
+  /** keyword = whole-word match, phrase = substring match, regex = JS regular expression */
+  matchType: ReplyRuleMatchType;
+  pattern: string;
+  reply: string;
+  enabled: boolean;
+  /** Match case exactly (default: case-insensitive) */
+  caseSensitive?: boolean;
+}
+
+export interface AccessListEntry {
+  did: string;
+  handle?: string;
+  note?: string;
+  addedAt: string;
+}
+
+export interface AccessLists {
+  /** all = everyone except the blocklist; allowlistOnly = only allowlisted accounts (for testing) */
+  mode: 'all' | 'allowlistOnly';
+  /** Always get auto-replies (audience filters don't apply) */
+  allow: AccessListEntry[];
+  /** Never get auto-replies */
+  block: AccessListEntry[];
+}
@@ -0,0 +1,234 @@
+/**
+ * Outbound webhooks: HMAC-signed JSON POSTs to subscriber URLs when DMs arrive,
+ * replies go out or fail, or Bluesky rate-limits the bot.
+ * Events are collected during a cron run and delivered at the end of it; failed
+ * deliveries are retried with backoff on later runs and kept in a delivery log.
+ */
+
+import { AccountStore, WebhookEventType, WebhookSubscriber } from './types';
+
+const WEBHOOKS_KEY = 'webhooks';
+const DELIVERIES_KEY = 'webhook_deliveries';
+const MAX_WEBHOOKS = 10;
+/** Minutes to wait before each retry; a delivery gives up after the last one */
+const RETRY_BACKOFF_MIN = [1, 5, 30, 120, 720];
+const MAX_DELIVERIES = 200;
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ERROR_CHARS = 200;
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['dm.received', 'reply.sent', 'reply.failed', 'rate_limited'];
+
+export interface WebhookEventData {
+  /** Sender of the DM */
+  did?: string;
+  handle?: string;
+  convoId?: string;
+  /** Text of the sender's DM */
+  text?: string;
+  /** Auto-reply text (reply.sent / reply.failed) */
+  reply?: string;
+  /** Which auto-reply was chosen: welcome, rule, away or welcomeBack */
+  kind?: string;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: WebhookEventData;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  /** Exact JSON body; retries send it unchanged */
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  lastAttemptAt?: string;
+  nextAttemptAt?: string;
+  /** HTTP status of the last attempt, if the subscriber answered */
+  lastStatus?: number;
+  lastError?: string;
+}
+
+export function createWebhookEvent(type: WebhookEventType, data: WebhookEventData): WebhookEvent {
+  return { id: crypto.randomUUID(), type, createdAt: new Date().toISOString(), data };
+}
+
+export async function getWebhooks(kv: AccountStore): Promise<WebhookSubscriber[]> {
+  const raw = await kv.get(WEBHOOKS_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as WebhookSubscriber[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveWebhooks(kv: AccountStore, webhooks: WebhookSubscriber[]): Promise<void> {
+  await kv.put(WEBHOOKS_KEY, JSON.stringify(webhooks));
+}
+
+export async function getDeliveries(kv: AccountStore): Promise<WebhookDelivery[]> {
+  const raw = await kv.get(DELIVERIES_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as WebhookDelivery[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Validate and normalize webhook subscribers from the admin API.
+ * New subscribers (and ones without a secret) get a fresh signing secret.
+ */
+export function validateWebhooks(input: unknown): { webhooks: WebhookSubscriber[] } | { error: string } {
+  if (!Array.isArray(input)) return { error: 'webhooks must be an array' };
+  if (input.length > MAX_WEBHOOKS) return { error: `At most ${MAX_WEBHOOKS} webhooks allowed` };
+  const webhooks: WebhookSubscriber[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const w = input[i] as Partial<WebhookSubscriber>;
+    const n = i + 1;
+    const url = (w.url || '').trim();
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { error: `Webhook ${n}: invalid URL` };
+    }
+    if (parsed.protocol !== 'https:') return { error: `Webhook ${n}: URL must start with https://` };
+    if (!Array.isArray(w.events) || w.events.length === 0) {
+      return { error: `Webhook ${n}: choose at least one event` };
+    }
+    const unknown = w.events.find((e) => !WEBHOOK_EVENT_TYPES.includes(e));
+    if (unknown) return { error: `Webhook ${n}: unknown event "${unknown}"` };
+    webhooks.push({
+      id: w.id && typeof w.id === 'string' ? w.id : crypto.randomUUID(),
+      url,
+      secret: w.secret && typeof w.secret === 'string' ? w.secret : generateSecret(),
+      events: [...new Set(w.events)],
+      enabled: w.enabled !== false,
+      description: (w.description || '').trim().slice(0, 100) || undefined,
+    });
+  }
+  return { webhooks };
+}
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>` with the subscriber's secret. */
+export async function signWebhookBody(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(sig))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** POST one delivery and update its status / retry schedule in place. */
+async function attemptDelivery(delivery: WebhookDelivery, subscriber: WebhookSubscriber | undefined): Promise<void> {
+  const now = new Date();
+  delivery.attempts++;
+  delivery.lastAttemptAt = now.toISOString();
+  let error: string | undefined;
+  if (!subscriber) {
+    error = 'Webhook was removed';
+  } else {
+    const timestamp = Math.floor(now.getTime() / 1000);
+    delivery.url = subscriber.url;
+    try {
+      const res = await fetch(subscriber.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Signature': `t=${timestamp},v1=${await signWebhookBody(subscriber.secret, timestamp, delivery.body)}`,
+        },
+        body: delivery.body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      delivery.lastStatus = res.status;
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (err) {
+      error = (err as Error).message || String(err);
+    }
+  }
+
+  if (!error) {
+    delivery.status = 'delivered';
+    delete delivery.lastError;
+    delete delivery.nextAttemptAt;
+    return;
+  }
+  delivery.lastError = error.slice(0, MAX_ERROR_CHARS);
+  const backoffMin = subscriber ? RETRY_BACKOFF_MIN[delivery.attempts - 1] : undefined;
+  if (backoffMin === undefined) {
+    delivery.status = 'failed';
+    delete delivery.nextAttemptAt;
+  } else {
+    delivery.nextAttemptAt = new Date(now.getTime() + backoffMin * 60 * 1000).toISOString();
+  }
+}
+
+/**
+ * Queue deliveries for new events, then attempt every delivery that is due
+ * (new ones and scheduled retries). Costs one KV read per call, plus one write
+ * when anything changed; does nothing when no webhooks are configured.
+ */
+export async function deliverWebhooks(kv: AccountStore, events: WebhookEvent[]): Promise<void> {
+  const webhooks = await getWebhooks(kv);
+  if (webhooks.length === 0) return;
+  const deliveries = await getDeliveries(kv);
+  const before = JSON.stringify(deliveries);
+
+  for (const event of events) {
+    const body = JSON.stringify(event);
+    for (const w of webhooks) {
+      if (!w.enabled || !w.events.includes(event.type)) continue;
+      deliveries.unshift({
+        id: crypto.randomUUID(),
+        webhookId: w.id,
+        url: w.url,
+        eventId: event.id,
+        eventType: event.type,
+        body,
+        status: 'pending',
+        attempts: 0,
+        createdAt: event.createdAt,
+      });
+    }
+  }
+
+  const now = Date.now();
+  const due = deliveries.filter(
+    (d) => d.status === 'pending' && (!d.nextAttemptAt || new Date(d.nextAttemptAt).getTime() <= now)
+  );
+  await Promise.all(due.map((d) => attemptDelivery(d, webhooks.find((w) => w.id === d.webhookId))));
+
+  const cutoff = now - DELIVERY_RETENTION_MS;
+  const kept = deliveries
+    .filter((d) => d.status === 'pending' || new Date(d.lastAttemptAt || d.createdAt).getTime() > cutoff)
+    .slice(0, MAX_DELIVERIES);
+  const after = JSON.stringify(kept);
+  if (after !== before) await kv.put(DELIVERIES_KEY, after);
+}